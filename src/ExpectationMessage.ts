@@ -1,15 +1,46 @@
-import { diff } from "jest-diff";
-import { MockServer } from "./MockServer";
+import { diff, type DiffOptions } from "jest-diff";
+import { Mock, MockServer, UnmatchedCall } from "./MockServer";
 import {
+  CompositeMatcher,
+  describeMatcher,
+  isCompositeMatcher,
   matchBody,
+  matchBodyPath,
+  matchCookies,
   Matcher,
   MatcherObj,
+  matchHeader,
   matchHeaders,
+  matchHost,
+  matchInOrder,
+  matchIp,
   matchMethod,
   matchPath,
+  matchProtocol,
   matchQuery,
+  matchRequest,
+  normalizeIp,
+  parseCookies,
   Request,
 } from "./matchRequest";
+import { omitUnmatched, replaceMatched } from "./Match";
+import { parseBody } from "./parseBody";
+import { selectBodyPath } from "./bodyPath";
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#expectationmessageoptions} */
+export type ExpectationMessageOptions = {
+  /**
+   * when set to `true`, diffs are colourised using ANSI escape codes, when set to `false` they are plain text -
+   * If omitted, colours are used when the terminal supports them
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#expectationmessageoptions}
+   */
+  color?: boolean;
+  /**
+   * strings in request bodies longer than `maxBodyLength` characters are truncated in diffs
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#expectationmessageoptions}
+   */
+  maxBodyLength?: number;
+};
 
 /**
  * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#expectationmessage}
@@ -19,13 +50,18 @@ export const ExpectationMessage = {
    * Format an expectation message for [`hasBeenCalledWith()`]{@link https://github.com/joshuajaco/mocaron#hasbeencalledwithmatcher-boolean}.
    * @param {MockServer} mockServer The mock server instance
    * @param {string | RegExp | Matcher} matcher If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @param {ExpectationMessageOptions} [options={}]
    * @returns {string} the formatted expectation message
-   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasbeencalledwithmockserver-matcher-string}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasbeencalledwithmockserver-matcher-options-string}
    * @example
    * ExpectationMessage.hasBeenCalledWith(mockServer, matcher);
    */
-  hasBeenCalledWith(mockServer: MockServer, matcher: Matcher): string {
-    return `Expected 'mockServer' to have been called with matcher:\n${formatMatcher(matcher)}\n\n${formatDiffs(mockServer, matcher)}`;
+  hasBeenCalledWith(
+    mockServer: MockServer,
+    matcher: Matcher,
+    options: ExpectationMessageOptions = {},
+  ): string {
+    return `Expected 'mockServer' to have been called with matcher:\n${formatMatcher(matcher)}\n\n${formatDiffs(mockServer, matcher, options)}`;
   },
 
   /**
@@ -33,8 +69,9 @@ export const ExpectationMessage = {
    * @param {MockServer} mockServer The mock server instance
    * @param {number} times The number of times the mock server should have been called
    * @param {string | RegExp | Matcher} matcher If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @param {ExpectationMessageOptions} [options={}]
    * @returns {string} the formatted expectation message
-   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasbeencalledtimesmockserver-times-matcher-string}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasbeencalledtimesmockserver-times-matcher-options-string}
    * @example
    * ExpectationMessage.hasBeenCalledTimes(mockServer, 1, matcher);
    */
@@ -42,6 +79,7 @@ export const ExpectationMessage = {
     mockServer: MockServer,
     times: number,
     matcher: Matcher,
+    options: ExpectationMessageOptions = {},
   ): string {
     const actualTimes = mockServer.countCalls(matcher);
 
@@ -49,30 +87,364 @@ export const ExpectationMessage = {
       return `Expected 'mockServer' to have been called ${times} times with matcher:\n${formatMatcher(matcher)}\n\nActual calls: ${actualTimes}`;
     }
 
-    return this.hasBeenCalledWith(mockServer, matcher);
+    return this.hasBeenCalledWith(mockServer, matcher, options);
+  },
+
+  /**
+   * Format an expectation message for a negated [`hasBeenCalledWith()`]{@link https://github.com/joshuajaco/mocaron#hasbeencalledwithmatcher-boolean} listing the calls that matched.
+   * @param {MockServer} mockServer The mock server instance
+   * @param {Matcher} matcher The matcher the mock server should not have been called with
+   * @returns {string} the formatted expectation message
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasnotbeencalledwithmockserver-matcher-string}
+   * @example
+   * ExpectationMessage.hasNotBeenCalledWith(mockServer, matcher);
+   */
+  hasNotBeenCalledWith(mockServer: MockServer, matcher: Matcher): string {
+    const calls = mockServer
+      .calls()
+      .map(({ request }, i) => [request, i] as const)
+      .filter(([request]) => matchRequest(matcher, request))
+      .map(([request, i]) => `  ${i + 1}. ${request.method} ${request.path}`);
+
+    return `Expected 'mockServer' not to have been called with matcher:\n${formatMatcher(matcher)}\n\nMatching calls:\n${calls.join("\n")}`;
+  },
+
+  /**
+   * Format an expectation message for [`hasBeenNthCalledWith()`]{@link https://github.com/joshuajaco/mocaron#hasbeennthcalledwithn-matcher-boolean}.
+   * @param {MockServer} mockServer The mock server instance
+   * @param {number} n The position of the call, starting at `1`
+   * @param {Matcher} matcher The matcher the `n`th call should have matched
+   * @param {ExpectationMessageOptions} [options={}]
+   * @returns {string} the formatted expectation message
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasbeennthcalledwithmockserver-n-matcher-options-string}
+   * @example
+   * ExpectationMessage.hasBeenNthCalledWith(mockServer, 2, matcher);
+   */
+  hasBeenNthCalledWith(
+    mockServer: MockServer,
+    n: number,
+    matcher: Matcher,
+    options: ExpectationMessageOptions = {},
+  ): string {
+    const calls = mockServer.calls();
+
+    return formatCallMessage(
+      `Expected call ${n} of 'mockServer' to have matched matcher:\n${formatMatcher(matcher)}`,
+      calls.length,
+      calls[n - 1]?.request,
+      matcher,
+      options,
+    );
+  },
+
+  /**
+   * Format an expectation message for [`hasBeenLastCalledWith()`]{@link https://github.com/joshuajaco/mocaron#hasbeenlastcalledwithmatcher-boolean}.
+   * @param {MockServer} mockServer The mock server instance
+   * @param {Matcher} matcher The matcher the last call should have matched
+   * @param {ExpectationMessageOptions} [options={}]
+   * @returns {string} the formatted expectation message
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasbeenlastcalledwithmockserver-matcher-options-string}
+   * @example
+   * ExpectationMessage.hasBeenLastCalledWith(mockServer, matcher);
+   */
+  hasBeenLastCalledWith(
+    mockServer: MockServer,
+    matcher: Matcher,
+    options: ExpectationMessageOptions = {},
+  ): string {
+    const calls = mockServer.calls();
+
+    return formatCallMessage(
+      `Expected the last call of 'mockServer' to have matched matcher:\n${formatMatcher(matcher)}`,
+      calls.length,
+      calls.at(-1)?.request,
+      matcher,
+      options,
+    );
+  },
+
+  /**
+   * Format an expectation message for [`hasBeenCalledInOrder()`]{@link https://github.com/joshuajaco/mocaron#hasbeencalledinordermatchers-options-boolean} showing the call timeline against the expected order.
+   * @param {MockServer} mockServer The mock server instance
+   * @param {Matcher[]} matchers The matchers the mock server should have been called with in order
+   * @param {object} [options={}]
+   * @param {boolean} [options.strict=false] - when set to `true`, the calls must match exactly the given `matchers` in order without any other calls
+   * @param {boolean} [options.color] - see [`ExpectationMessageOptions`]{@link https://github.com/joshuajaco/mocaron#expectationmessageoptions}
+   * @param {number} [options.maxBodyLength] - see [`ExpectationMessageOptions`]{@link https://github.com/joshuajaco/mocaron#expectationmessageoptions}
+   * @returns {string} the formatted expectation message
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasbeencalledinordermockserver-matchers-options-string}
+   * @example
+   * ExpectationMessage.hasBeenCalledInOrder(mockServer, matchers);
+   */
+  hasBeenCalledInOrder(
+    mockServer: MockServer,
+    matchers: readonly Matcher[],
+    options: { strict?: boolean } & ExpectationMessageOptions = {},
+  ): string {
+    const requests = mockServer.calls().map(({ request }) => request);
+
+    // annotation of every call with the matcher it matched (or should have matched in strict mode)
+    const timeline: string[] = requests.map(() => "");
+    let matched: number;
+    // the first call that broke the expected order and the matcher it is compared to
+    let mismatch: { label: string; request: Request; matcher: Matcher } | null =
+      null;
+
+    if (options.strict) {
+      requests.forEach((request, i) => {
+        if (i >= matchers.length) timeline[i] = "unexpected";
+        else if (matchRequest(matchers[i], request))
+          timeline[i] = `matched ${i + 1}`;
+        else {
+          timeline[i] = `expected ${i + 1}`;
+          mismatch ??= {
+            label: `Call ${i + 1} did not match matcher ${i + 1}`,
+            request,
+            matcher: matchers[i],
+          };
+        }
+      });
+
+      matched = Math.min(requests.length, matchers.length);
+    } else {
+      const indices = matchInOrder(matchers, requests);
+      indices.forEach((requestIndex, i) => {
+        timeline[requestIndex] = `matched ${i + 1}`;
+      });
+
+      matched = indices.length;
+
+      // the closest call after the last call matched in order
+      const matcher = matchers.at(matched);
+      const request =
+        matcher &&
+        requests
+          .slice((indices.at(-1) ?? -1) + 1)
+          .toSorted((a, b) => score(matcher, b) - score(matcher, a))
+          .at(0);
+
+      if (matcher && request) {
+        mismatch = {
+          label: `Closest call for matcher ${matched + 1}`,
+          request,
+          matcher,
+        };
+      }
+    }
+
+    const calls = requests.map(
+      (request, i) =>
+        `  ${i + 1}. ${request.method} ${request.path}${timeline[i] && ` (${timeline[i]})`}`,
+    );
+
+    const message = [
+      `Expected 'mockServer' to have been called ${options.strict ? "in exactly this order" : "in order"} with matchers:`,
+      ...formatMatcherList(matchers),
+      "",
+      "Actual calls:",
+      ...(calls.length > 0 ? calls : ["  none"]),
+    ];
+
+    if (matched < matchers.length) {
+      message.push(
+        "",
+        "Not called in order:",
+        ...formatMatcherList(matchers).slice(matched),
+      );
+    }
+
+    if (mismatch) {
+      const { label, request, matcher } = mismatch;
+      message.push(
+        "",
+        `${label}:`,
+        `${request.method} ${request.path}:`,
+        formatDiff(matcher, request, options) ?? "",
+      );
+    }
+
+    return message.join("\n");
+  },
+
+  /**
+   * Format a message for an [unmatched call]{@link https://github.com/joshuajaco/mocaron#unmatchedcall} explaining why each of the closest mocks did not match.
+   * @param {MockServer} mockServer The mock server instance
+   * @param {UnmatchedCall} call The unmatched call, e.g. from [`unmatchedCalls()`]{@link https://github.com/joshuajaco/mocaron#unmatchedcalls-readonly-unmatchedcall}
+   * @param {ExpectationMessageOptions} [options={}]
+   * @returns {string} the formatted message
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#unmatchedcallmockserver-call-options-string}
+   * @example
+   * ExpectationMessage.unmatchedCall(mockServer, mockServer.unmatchedCalls()[0]);
+   */
+  unmatchedCall(
+    mockServer: MockServer,
+    call: UnmatchedCall,
+    options: ExpectationMessageOptions = {},
+  ): string {
+    const { request, closestMocks } = call;
+
+    const mocks = closestMocks.map(
+      (mock) =>
+        `Closest mock ${describeMatcher(mock.matcher)}:\n${
+          // a mock matching the request was not available when it was made
+          matchRequest(mock.matcher, request)
+            ? formatUnavailable(mockServer, mock)
+            : formatDiff(mock.matcher, request, options)
+        }`,
+    );
+
+    return `${request.method} ${request.path}:\n${mocks.length > 0 ? mocks.join("\n\n") : "No mocks registered"}`;
+  },
+
+  /**
+   * Format an expectation message for [`verify()`]{@link https://github.com/joshuajaco/mocaron#verify-void} listing all [unmatched calls]{@link https://github.com/joshuajaco/mocaron#unmatchedcallmockserver-call-options-string}.
+   * @param {MockServer} mockServer The mock server instance
+   * @param {ExpectationMessageOptions} [options={}]
+   * @returns {string} the formatted expectation message
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasnounmatchedcallsmockserver-options-string}
+   * @example
+   * ExpectationMessage.hasNoUnmatchedCalls(mockServer);
+   */
+  hasNoUnmatchedCalls(
+    mockServer: MockServer,
+    options: ExpectationMessageOptions = {},
+  ): string {
+    const calls = mockServer.unmatchedCalls();
+
+    return [
+      `Expected all requests to match a mock, ${calls.length} requests did not match:`,
+      ...calls.map((call) => this.unmatchedCall(mockServer, call, options)),
+    ].join("\n\n");
   },
 };
 
-function formatMatcher(matcher: Matcher) {
+/** Get the `limit` registered mocks closest to the `request`, closest first */
+export function closestMocks(
+  mocks: readonly Mock[],
+  request: Request,
+  limit = 3,
+): Mock[] {
+  return mocks
+    .toSorted((a, b) => score(b.matcher, request) - score(a.matcher, request))
+    .slice(0, limit);
+}
+
+function formatUnavailable(mockServer: MockServer, mock: Mock) {
+  const { scenario, requiredState, times, sequenceEnd } = mock.options;
+
+  if (scenario != null && requiredState != null) {
+    const state = mockServer.scenarioState(scenario);
+
+    if (state !== requiredState) {
+      return `Matched, but scenario "${scenario}" is in state "${state}" instead of "${requiredState}"`;
+    }
+  }
+
+  const limit = Math.min(
+    times ?? Infinity,
+    Array.isArray(mock.response) && sequenceEnd === "fallthrough"
+      ? mock.response.length
+      : Infinity,
+  );
+
+  if (mockServer.mockCalls(mock).length >= limit) {
+    return "Matched, but the mock has been exhausted";
+  }
+
+  return "Matched, but the mock was not available when the request was made";
+}
+
+function formatMatcherList(matchers: readonly Matcher[]) {
+  return matchers.map((m, i) => `  ${i + 1}. ${formatMatcher(m, 0)}`);
+}
+
+export function formatMatcher(matcher: Matcher, space = 2) {
   if (typeof matcher === "function") return matcher.toString();
-  return JSON.stringify(matcher, null, 2);
+
+  // function matchers nested in composite matchers are printed as source and regular expressions as literals
+  return JSON.stringify(
+    matcher,
+    (key, value) =>
+      typeof value === "function" || value instanceof RegExp
+        ? value.toString()
+        : value,
+    space,
+  );
 }
 
-function formatDiffs(mockServer: MockServer, matcher: Matcher) {
-  if (typeof matcher === "function") return "No diff (matcher is a function)";
+function formatCallMessage(
+  message: string,
+  calls: number,
+  request: Request | undefined,
+  matcher: Matcher,
+  options: ExpectationMessageOptions,
+) {
+  if (!request) return `${message}\n\nActual calls: ${calls}`;
+  return `${message}\n\n${request.method} ${request.path}:\n${formatDiff(matcher, request, options)}`;
+}
 
+function formatDiffs(
+  mockServer: MockServer,
+  matcher: Matcher,
+  options: ExpectationMessageOptions,
+) {
   return mockServer
     .calls()
     .map(({ request }) => [request, score(matcher, request)] as const)
     .toSorted(([, scoreA], [, scoreB]) => scoreB - scoreA)
     .map(
       ([request]) =>
-        `${request.method} ${request.path}:\n${formatDiff(matcher, request)}`,
+        `${request.method} ${request.path}:\n${formatDiff(matcher, request, options)}`,
     )
     .join("\n\n");
 }
 
-function formatDiff(matcher: MatcherObj, request: Request) {
+function formatDiff(
+  matcher: Matcher,
+  request: Request,
+  options: ExpectationMessageOptions,
+): string | null {
+  if (typeof matcher === "function") return formatReceived(request, options);
+
+  if (isCompositeMatcher(matcher)) {
+    return formatCompositeDiff(matcher, request, options);
+  }
+
+  return formatObjDiff(matcher, request, options);
+}
+
+// function matchers can not be diffed, the received request is shown instead
+function formatReceived(request: Request, options: ExpectationMessageOptions) {
+  const { method, path, query, body } = sanitizeRequest(request);
+  const received = { method, path, query, body: truncate(body, options) };
+  return `Received (matcher is a function):\n${JSON.stringify(received, null, 2)}`;
+}
+
+function formatCompositeDiff(
+  matcher: CompositeMatcher,
+  request: Request,
+  options: ExpectationMessageOptions,
+) {
+  if ("not" in matcher) {
+    return `Expected not to match:\n${formatMatcher(matcher.not)}`;
+  }
+
+  // only the matchers that did not match are relevant for "and", the closest one for "or"
+  const matchers =
+    "and" in matcher
+      ? matcher.and.filter((m) => !matchRequest(m, request))
+      : matcher.or
+          .toSorted((a, b) => score(b, request) - score(a, request))
+          .slice(0, 1);
+
+  return matchers.map((m) => formatDiff(m, request, options)).join("\n\n");
+}
+
+function formatObjDiff(
+  matcher: MatcherObj,
+  request: Request,
+  options: ExpectationMessageOptions,
+) {
   const req = sanitizeRequest(request);
 
   const actual: MatcherObj = filterKeys(
@@ -85,13 +457,126 @@ function formatDiff(matcher: MatcherObj, request: Request) {
   }
 
   if (matcher.headers) {
-    actual.headers = filterKeys(req.headers, Object.keys(matcher.headers));
+    // matched header values are shown as expected to hide insignificant differences (e.g. media type parameters)
+    actual.headers = Object.fromEntries(
+      Object.entries(matcher.headers).map(([k, v]) => {
+        const value = request.headers[k.toLowerCase()];
+        return [k, matchHeader(k, v, value) ? v : value];
+      }),
+    );
+  }
+
+  if (matcher.cookies) {
+    actual.cookies = filterKeys(req.cookies, Object.keys(matcher.cookies));
+  }
+
+  if (matcher.bodyPath) {
+    const body = parseBody(request);
+
+    actual.bodyPath = Object.fromEntries(
+      Object.keys(matcher.bodyPath).map((expression) => [
+        expression,
+        selectBodyPath(expression, body),
+      ]),
+    );
+  }
+
+  if (matcher.bodyMatch) {
+    actual.bodyMatch = matcher.bodyMatch;
+
+    if (matcher.bodyMatch.partial) {
+      actual.body = omitUnmatched(
+        matcher.body,
+        actual.body,
+        matcher.bodyMatch,
+      ) as MatcherObj["body"];
+    }
+  }
+
+  if (options.maxBodyLength != null) {
+    matcher = { ...matcher, body: truncate(matcher.body, options) };
+    actual.body = truncate(actual.body, options);
+  }
+
+  return diff(matcher, replaceMatched(matcher, actual), diffOptions(options));
+}
+
+function truncate<T>(
+  value: T,
+  { maxBodyLength }: ExpectationMessageOptions,
+): T {
+  if (maxBodyLength == null) return value;
+
+  if (typeof value === "string" && value.length > maxBodyLength) {
+    return `${value.slice(0, maxBodyLength)}… (${value.length - maxBodyLength} more characters)` as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((v) => truncate(v, { maxBodyLength })) as T;
+  }
+
+  // asymmetric matchers and other class instances are kept as they are
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [
+        k,
+        truncate(v, { maxBodyLength }),
+      ]),
+    ) as T;
   }
 
-  return diff(matcher, actual);
+  return value;
+}
+
+const plain = (s: string) => s;
+
+const ansi = (open: number, close: number) => (s: string) =>
+  `\x1B[${open}m${s}\x1B[${close}m`;
+
+// mirrors the default colours of jest-diff, which are only used when the terminal supports them
+function diffOptions({
+  color,
+}: ExpectationMessageOptions): DiffOptions | undefined {
+  if (color == null) return undefined;
+
+  if (!color) {
+    return {
+      aColor: plain,
+      bColor: plain,
+      changeColor: plain,
+      commonColor: plain,
+      patchColor: plain,
+    };
+  }
+
+  return {
+    aColor: ansi(32, 39),
+    bColor: ansi(31, 39),
+    changeColor: ansi(7, 27),
+    commonColor: ansi(2, 22),
+    patchColor: ansi(33, 39),
+  };
+}
+
+function score(matcher: Matcher, request: Request): number {
+  if (typeof matcher === "function") {
+    return matchRequest(matcher, request) ? 100 : 0;
+  }
+
+  if (!isCompositeMatcher(matcher)) return scoreObj(matcher, request);
+
+  if ("not" in matcher) return matchRequest(matcher.not, request) ? 0 : 100;
+
+  const scores = ("and" in matcher ? matcher.and : matcher.or).map((m) =>
+    score(m, request),
+  );
+
+  if ("or" in matcher) return Math.max(0, ...scores);
+
+  return scores.reduce((a, b) => a + b, 0) / Math.max(1, scores.length);
 }
 
-function score(matcher: MatcherObj, request: Request): number {
+function scoreObj(matcher: MatcherObj, request: Request): number {
   let maxPoints = 0;
   let points = 0;
 
@@ -115,15 +600,43 @@ function score(matcher: MatcherObj, request: Request): number {
     if (matchHeaders(matcher, request)) points += 2;
   }
 
+  if (matcher.cookies) {
+    maxPoints += 2;
+    if (matchCookies(matcher, request)) points += 2;
+  }
+
+  if (matcher.host) {
+    maxPoints += 2;
+    if (matchHost(matcher, request)) points += 2;
+  }
+
+  if (matcher.protocol) {
+    maxPoints += 1;
+    if (matchProtocol(matcher, request)) points += 1;
+  }
+
+  if (matcher.ip) {
+    maxPoints += 1;
+    if (matchIp(matcher, request)) points += 1;
+  }
+
   if (matcher.body) {
     maxPoints += 4;
     if (matchBody(matcher, request)) points += 4;
   }
 
+  if (matcher.bodyPath) {
+    maxPoints += 4;
+    if (matchBodyPath(matcher, request)) points += 4;
+  }
+
   return (points / maxPoints) * 100;
 }
 
-type SanitizedRequest = Required<Omit<MatcherObj, "body">> & MatcherObj;
+type SanitizedRequest = Required<
+  Omit<MatcherObj, "body" | "bodyMatch" | "bodyPath" | "protocol" | "ip">
+> &
+  MatcherObj;
 
 function sanitizeRequest(request: Request): SanitizedRequest {
   return {
@@ -131,18 +644,14 @@ function sanitizeRequest(request: Request): SanitizedRequest {
     path: request.path,
     query: request.query,
     headers: request.headers,
-    body: request.body ? tryParse(request.body.toString()) : undefined,
+    cookies: parseCookies(request),
+    host: request.hostname,
+    protocol: request.protocol as MatcherObj["protocol"],
+    ip: normalizeIp(request.ip),
+    body: parseBody(request) as MatcherObj["body"],
   };
 }
 
-function tryParse(body: string): string | Record<never, unknown> {
-  try {
-    return JSON.parse(body);
-  } catch {
-    return body;
-  }
-}
-
 function filterKeys<T>(obj: T, keys: Array<keyof T>): Partial<T> {
   return Object.fromEntries(keys.map((key) => [key, obj[key]])) as Partial<T>;
 }
@@ -0,0 +1,359 @@
+import deepEqual from "deep-equal";
+import type { BodyMatchOptions } from "./matchRequest";
+
+// shared with jest and vitest so their asymmetric matchers work too and jest-diff prints ours
+const asymmetricMatcherSymbol = Symbol.for("jest.asymmetricMatcher");
+
+/**
+ * matcher that can be used in place of any value inside a [`MatcherObj`]{@link https://github.com/joshuajaco/mocaron#matcherobj}
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#asymmetricmatcher}
+ */
+export type AsymmetricMatcher = {
+  $$typeof: symbol;
+  /**
+   * @param {unknown} actual - value to match against
+   * @returns {boolean} whether the value should match
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#asymmetricmatcher}
+   */
+  asymmetricMatch(actual: unknown): boolean;
+};
+
+/**
+ * value that may contain [asymmetric matchers]{@link https://github.com/joshuajaco/mocaron#asymmetric-matchers} at any depth
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#matcherobj}
+ */
+export type Matchable<T> =
+  | AsymmetricMatcher
+  | (T extends ReadonlyArray<infer U>
+      ? Array<Matchable<U>>
+      : T extends object
+        ? { [K in keyof T]: Matchable<T[K]> }
+        : T);
+
+/**
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#match}
+ */
+export const Match = {
+  /**
+   * Match any value created by the given constructor - primitives match their wrapper (e.g. `String`)
+   * @param {Function} constructor
+   * @returns {AsymmetricMatcher}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#anyconstructor-asymmetricmatcher}
+   * @example
+   * mockServer.post({ path: "/users", body: { id: Match.any(Number) } }, 201);
+   */
+  any(
+    constructor: abstract new (...args: never[]) => unknown,
+  ): AsymmetricMatcher {
+    return createMatcher("Any", `Any<${constructor.name}>`, (actual) => {
+      switch (constructor as unknown) {
+        case String:
+          return typeof actual === "string" || actual instanceof String;
+        case Number:
+          return typeof actual === "number" || actual instanceof Number;
+        case Boolean:
+          return typeof actual === "boolean" || actual instanceof Boolean;
+        case Function:
+          return typeof actual === "function";
+        case Object:
+          return typeof actual === "object" && actual !== null;
+        default:
+          return actual instanceof constructor;
+      }
+    });
+  },
+
+  /**
+   * Match anything but `null` and `undefined`.
+   * @returns {AsymmetricMatcher}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#anything-asymmetricmatcher}
+   * @example
+   * mockServer.get({ path: "/users", query: { page: Match.anything() } }, 200);
+   */
+  anything(): AsymmetricMatcher {
+    return createMatcher("Anything", "Anything", (actual) => actual != null);
+  },
+
+  /**
+   * Match a string containing `expected`.
+   * @param {string} expected
+   * @returns {AsymmetricMatcher}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#stringcontainingexpected-asymmetricmatcher}
+   * @example
+   * mockServer.get({ path: "/users", headers: { accept: Match.stringContaining("json") } }, 200);
+   */
+  stringContaining(expected: string): AsymmetricMatcher {
+    return createMatcher(
+      "StringContaining",
+      `StringContaining ${JSON.stringify(expected)}`,
+      (actual) => typeof actual === "string" && actual.includes(expected),
+      expected,
+    );
+  },
+
+  /**
+   * Match a string matching `expected`.
+   * @param {string | RegExp} expected - If expected is a `string`, it will be converted to a `RegExp`
+   * @returns {AsymmetricMatcher}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#stringmatchingexpected-asymmetricmatcher}
+   * @example
+   * mockServer.post({ path: "/users", body: { email: Match.stringMatching(/@example\.com$/) } }, 201);
+   */
+  stringMatching(expected: string | RegExp): AsymmetricMatcher {
+    // without the global and sticky flags `test()` does not keep state between calls
+    const regexp =
+      typeof expected === "string"
+        ? new RegExp(expected)
+        : new RegExp(expected.source, expected.flags.replace(/[gy]/g, ""));
+
+    return createMatcher(
+      "StringMatching",
+      `StringMatching ${regexp}`,
+      (actual) => typeof actual === "string" && regexp.test(actual),
+      regexp,
+    );
+  },
+
+  /**
+   * Match an object containing the properties of `expected` - other properties are ignored
+   * @param {object} expected - properties may be asymmetric matchers
+   * @returns {AsymmetricMatcher}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#objectcontainingexpected-asymmetricmatcher}
+   * @example
+   * mockServer.post({ path: "/users", body: Match.objectContaining({ name: "John" }) }, 201);
+   */
+  objectContaining(expected: object): AsymmetricMatcher {
+    return createMatcher(
+      "ObjectContaining",
+      `ObjectContaining ${JSON.stringify(expected)}`,
+      (actual) =>
+        typeof actual === "object" &&
+        actual !== null &&
+        Object.entries(expected).every(
+          ([k, v]) =>
+            k in actual && equals(v, actual[k as keyof typeof actual]),
+        ),
+      expected,
+    );
+  },
+
+  /**
+   * Match an array containing all elements of `expected` in any order - other elements are ignored
+   * @param {unknown[]} expected - elements may be asymmetric matchers
+   * @returns {AsymmetricMatcher}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#arraycontainingexpected-asymmetricmatcher}
+   * @example
+   * mockServer.post({ path: "/users", body: { roles: Match.arrayContaining(["admin"]) } }, 201);
+   */
+  arrayContaining(expected: readonly unknown[]): AsymmetricMatcher {
+    return createMatcher(
+      "ArrayContaining",
+      `ArrayContaining ${JSON.stringify(expected)}`,
+      (actual) =>
+        Array.isArray(actual) &&
+        expected.every((e) => actual.some((a) => equals(e, a))),
+      expected,
+    );
+  },
+
+  /**
+   * Match a number between `min` and `max` (inclusive).
+   * @param {number} min
+   * @param {number} max
+   * @returns {AsymmetricMatcher}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#numberinrangemin-max-asymmetricmatcher}
+   * @example
+   * mockServer.post({ path: "/orders", body: { amount: Match.numberInRange(1, 100) } }, 201);
+   */
+  numberInRange(min: number, max: number): AsymmetricMatcher {
+    return createMatcher(
+      "NumberInRange",
+      `NumberInRange ${min}..${max}`,
+      (actual) => typeof actual === "number" && actual >= min && actual <= max,
+    );
+  },
+
+  /**
+   * Match a value for which `predicate` returns `true` - predicates throwing an error do not match
+   * @param {(actual: unknown) => boolean} predicate
+   * @param {string} [description=predicate.name] - description shown in expectation messages
+   * @returns {AsymmetricMatcher}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#satisfiespredicate-description-asymmetricmatcher}
+   * @example
+   * mockServer.post({ path: "/users", body: { id: Match.satisfies(isUUID, "UUID") } }, 201);
+   */
+  satisfies(
+    predicate: (actual: unknown) => boolean,
+    description: string = predicate.name || "anonymous",
+  ): AsymmetricMatcher {
+    return createMatcher("Satisfies", `Satisfies<${description}>`, (actual) => {
+      try {
+        return predicate(actual);
+      } catch {
+        return false;
+      }
+    });
+  },
+};
+
+function createMatcher(
+  name: string,
+  description: string,
+  asymmetricMatch: (actual: unknown) => boolean,
+  sample?: unknown,
+): AsymmetricMatcher {
+  return {
+    $$typeof: asymmetricMatcherSymbol,
+    asymmetricMatch,
+    sample,
+    // used by jest-diff to print the matcher
+    toString: () => name,
+    toAsymmetricMatcher: () => description,
+    toJSON: () => description,
+  } as AsymmetricMatcher;
+}
+
+export function isAsymmetricMatcher(
+  value: unknown,
+): value is AsymmetricMatcher {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as AsymmetricMatcher).$$typeof === asymmetricMatcherSymbol
+  );
+}
+
+export function containsAsymmetricMatcher(value: unknown): boolean {
+  if (isAsymmetricMatcher(value)) return true;
+  if (!isPlainObject(value) && !Array.isArray(value)) return false;
+  return Object.values(value).some(containsAsymmetricMatcher);
+}
+
+/**
+ * Strictly compare `actual` to `expected` -
+ * asymmetric matchers in `expected` are matched against the value at the same position in `actual`
+ */
+export function equals(
+  expected: unknown,
+  actual: unknown,
+  options: BodyMatchOptions = {},
+): boolean {
+  if (isAsymmetricMatcher(expected)) return expected.asymmetricMatch(actual);
+
+  if (!options.partial && !containsAsymmetricMatcher(expected)) {
+    return deepEqual(actual, expected, { strict: true });
+  }
+
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return false;
+
+    switch (options.partial ? options.arrays : "exact") {
+      case "prefix":
+        return (
+          actual.length >= expected.length &&
+          expected.every((v, i) => equals(v, actual[i], options))
+        );
+      case "contains":
+        return expected.every((v) => actual.some((a) => equals(v, a, options)));
+      default:
+        return (
+          actual.length === expected.length &&
+          expected.every((v, i) => equals(v, actual[i], options))
+        );
+    }
+  }
+
+  if (!isPlainObject(expected)) {
+    return deepEqual(actual, expected, { strict: true });
+  }
+
+  if (!isPlainObject(actual)) return false;
+
+  const expectedEntries = Object.entries(expected);
+
+  if (options.partial) {
+    return expectedEntries.every(([k, v]) =>
+      v === undefined
+        ? !Object.hasOwn(actual, k)
+        : Object.hasOwn(actual, k) && equals(v, actual[k], options),
+    );
+  }
+
+  return (
+    expectedEntries.length === Object.keys(actual).length &&
+    expectedEntries.every(
+      ([k, v]) => Object.hasOwn(actual, k) && equals(v, actual[k], options),
+    )
+  );
+}
+
+/**
+ * Replace the values in `actual` that are matched by an asymmetric matcher in `expected` with that matcher -
+ * used to hide matched values in diffs
+ */
+export function replaceMatched(expected: unknown, actual: unknown): unknown {
+  if (isAsymmetricMatcher(expected)) {
+    return expected.asymmetricMatch(actual) ? expected : actual;
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    return actual.map((v, i) =>
+      i < expected.length ? replaceMatched(expected[i], v) : v,
+    );
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    return Object.fromEntries(
+      Object.entries(actual).map(([k, v]) => [
+        k,
+        Object.hasOwn(expected, k) ? replaceMatched(expected[k], v) : v,
+      ]),
+    );
+  }
+
+  return actual;
+}
+
+/**
+ * Remove the values from `actual` that are ignored when partially matching `expected` -
+ * used to hide them in diffs
+ */
+export function omitUnmatched(
+  expected: unknown,
+  actual: unknown,
+  options: BodyMatchOptions,
+): unknown {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    switch (options.arrays) {
+      case "prefix":
+        return actual
+          .slice(0, expected.length)
+          .map((v, i) => omitUnmatched(expected[i], v, options));
+      case "contains":
+        return actual.filter((a) =>
+          expected.some((v) => equals(v, a, options)),
+        );
+      default:
+        return actual.map((v, i) =>
+          i < expected.length ? omitUnmatched(expected[i], v, options) : v,
+        );
+    }
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    return Object.fromEntries(
+      Object.entries(expected).map(([k, v]) => [
+        k,
+        omitUnmatched(v, actual[k], options),
+      ]),
+    );
+  }
+
+  return actual;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -1,8 +1,29 @@
-import type http from "node:http";
+import http from "node:http";
+import https from "node:https";
+import type { AddressInfo } from "node:net";
+import { writeFile } from "node:fs/promises";
 import { setTimeout } from "node:timers/promises";
 import express from "express";
 import bodyParser from "body-parser";
-import { matchRequest } from "./matchRequest";
+import deepEqual from "deep-equal";
+import {
+  describeMatcher,
+  extractParams,
+  matchInOrder,
+  matchRequest,
+  resolvePathMatcher,
+} from "./matchRequest";
+import { proxyRequest, toMockDefinition } from "./proxy";
+import { createAdminRouter, defaultAdminPath } from "./admin";
+import { generateCertificate } from "./certificate";
+import { parseBody } from "./parseBody";
+import { closestMocks, ExpectationMessage } from "./ExpectationMessage";
+import {
+  loadFixtures,
+  serializeMock,
+  stringifyFixtures,
+  type FixtureMock,
+} from "./fixtures";
 import type { Request, Matcher, MatcherObj } from "./matchRequest";
 
 /** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#responseobj} */
@@ -13,10 +34,11 @@ export type ResponseObj = {
    */
   status?: number;
   /**
-   * headers to respond with
+   * headers to respond with -
+   * If an array is given, the header is sent once for every value (e.g. multiple `Set-Cookie` headers)
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#responseobj}
    */
-  headers?: Record<string, string>;
+  headers?: Record<string, string | string[]>;
   /**
    * body to respond with -
    * If an `object` is given it will be converted to a JSON string
@@ -51,6 +73,42 @@ export type MockOptions = {
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockoptions}
    */
   overwrite?: boolean;
+  /**
+   * mocks with a higher priority take precedence over other matching mocks (defaults to `0`) -
+   * Only matching mocks with the same priority are [ambiguous]{@link https://github.com/joshuajaco/mocaron#ambiguous-mocks}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockoptions}
+   */
+  priority?: number;
+  /**
+   * number of times the mock will respond before it stops matching -
+   * Mocks with `times` set take precedence over other matching mocks with the same priority, in the order they were registered
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockoptions}
+   */
+  times?: number;
+  /**
+   * what happens after the last response of a response sequence has been served -
+   * `"repeat"` keeps serving the last response (default),
+   * `"loop"` starts over with the first response,
+   * `"fallthrough"` stops matching, letting the next matching mock respond
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockoptions}
+   */
+  sequenceEnd?: "repeat" | "loop" | "fallthrough";
+  /**
+   * name of the [scenario]{@link https://github.com/joshuajaco/mocaron#scenarios} the mock belongs to
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockoptions}
+   */
+  scenario?: string;
+  /**
+   * state the scenario has to be in for the mock to match -
+   * Every scenario starts in the `"started"` state
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockoptions}
+   */
+  requiredState?: string;
+  /**
+   * state the scenario transitions to after the mock responded
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockoptions}
+   */
+  newState?: string;
 };
 
 /** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mock} */
@@ -61,10 +119,11 @@ export type Mock = {
    */
   matcher: Matcher;
   /**
-   * response the server will respond with when matched
+   * response the server will respond with when matched -
+   * If an array is given, the responses will be served in order
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mock}
    */
-  response: Response;
+  response: Response | Response[];
   /** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mock} */
   options: MockOptions;
 };
@@ -76,20 +135,180 @@ export type Call = {
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#call}
    */
   request: Request;
+  /**
+   * mock the request matched
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#call}
+   */
+  mock: Mock;
   /**
    * matcher the request matched against
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#call}
    */
   matcher: Matcher;
+  /**
+   * path parameters extracted by the matcher
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#call}
+   */
+  params: Record<string, string>;
+  /**
+   * number of times the matched mock had been called before this call
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#call}
+   */
+  index: number;
+  /**
+   * whether the request matched [ambiguous mocks]{@link https://github.com/joshuajaco/mocaron#ambiguous-mocks} and was not served by `mock`
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#call}
+   */
+  ambiguous: boolean;
+  /**
+   * [parsed request body]{@link https://github.com/joshuajaco/mocaron#parsebodyreq-unknown}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#call}
+   */
+  body: unknown;
+};
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#unmatchedcall} */
+export type UnmatchedCall = {
+  /**
+   * request that did not match any mock
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#unmatchedcall}
+   */
+  request: Request;
+  /**
+   * [parsed request body]{@link https://github.com/joshuajaco/mocaron#parsebodyreq-unknown}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#unmatchedcall}
+   */
+  body: unknown;
+  /**
+   * registered mocks closest to the request, closest first
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#unmatchedcall}
+   */
+  closestMocks: readonly Mock[];
+};
+
+/**
+ * handle of a single registered mock - returned by [`add()`]{@link https://github.com/joshuajaco/mocaron#addmatcher-response-options-mockhandle}
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockhandle}
+ */
+export type MockHandle = {
+  /**
+   * the registered mock
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockhandle}
+   */
+  readonly mock: Mock;
+  /**
+   * Remove the mock - calls of the mock are kept
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockhandle}
+   */
+  remove(): void;
+  /**
+   * Replace the response of the mock - the number of times the mock has been matched is reset
+   * @param {string | number | Response | Array<string | number | Response>} response - same shorthands as [`mock()`]{@link https://github.com/joshuajaco/mocaron#mockmatcher-response-options-mockserver}
+   * @returns {MockHandle} this
+   * @throws {Error} if the mock has been removed
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockhandle}
+   */
+  update(
+    response: string | number | Response | Array<string | number | Response>,
+  ): MockHandle;
+  /**
+   * Get all calls of the mock.
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockhandle}
+   */
+  calls(): readonly Call[];
+  /**
+   * Count the number of times the mock has been called.
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockhandle}
+   */
+  countCalls(): number;
+};
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockdefinition} */
+export type MockDefinition = {
+  /**
+   * matcher to match against the request
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockdefinition}
+   */
+  matcher: MatcherObj;
+  /**
+   * response the server will respond with when matched
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockdefinition}
+   */
+  response: ResponseObj;
+};
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#proxyoptions} */
+export type ProxyOptions = {
+  /**
+   * URL unmatched requests are forwarded to
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#proxyoptions}
+   */
+  target: string;
+  /**
+   * when set to `true`, proxied requests are recorded as [mock definitions]{@link https://github.com/joshuajaco/mocaron#mockdefinition} -
+   * If a `string` is given, the recordings will also be written to that file as JSON
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#proxyoptions}
+   */
+  record?: boolean | string;
+};
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#httpsoptions} */
+export type HttpsOptions = {
+  /**
+   * private key in PEM format
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#httpsoptions}
+   */
+  key: string | Buffer;
+  /**
+   * certificate chain in PEM format
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#httpsoptions}
+   */
+  cert: string | Buffer;
 };
 
 /** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#options} */
 export type Options = {
   /**
-   * port to run the mock server on
+   * port to run the mock server on -
+   * If omitted or `0`, the operating system will assign a free port
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#options}
+   */
+  port?: number;
+  /**
+   * serve over HTTPS -
+   * If set to `true`, a self-signed certificate for `localhost` is generated when the server starts
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#options}
    */
-  port: number;
+  https?: boolean | HttpsOptions;
+  /**
+   * forward unmatched requests to another server -
+   * If a `string` is given, it will be used as the proxy target
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#options}
+   */
+  proxy?: string | ProxyOptions;
+  /**
+   * called when a request does not match any mock -
+   * Defaults to logging the request and a diff against the closest mocks using `console.warn`
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#options}
+   */
+  onUnmatched?: (req: Request, call: UnmatchedCall) => void;
+  /**
+   * when set to `true`, [`stop()`]{@link https://github.com/joshuajaco/mocaron#stop-promisevoid} rejects if any request did not match a mock
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#options}
+   */
+  failOnUnmatched?: boolean;
+  /**
+   * called when a request matches multiple [ambiguous mocks]{@link https://github.com/joshuajaco/mocaron#ambiguous-mocks} -
+   * Defaults to logging the request using `console.warn`
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#options}
+   */
+  onAmbiguous?: (req: Request, mocks: readonly Mock[]) => void;
+  /**
+   * when set to `true`, the [admin API]{@link https://github.com/joshuajaco/mocaron#admin-api} is mounted on `/__mocaron` -
+   * If a `string` is given, it will be used as the path to mount the admin API on
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#options}
+   */
+  admin?: boolean | string;
 };
 
 /**
@@ -99,7 +318,14 @@ export type Options = {
 export class MockServer {
   #mocks: Mock[] = [];
   #calls: Call[] = [];
-  #server: http.Server | null = null;
+  #unmatchedCalls: UnmatchedCall[] = [];
+  #callListeners = new Set<() => void>();
+  #timesMatched = new WeakMap<Mock, number>();
+  #scenarios = new Map<string, string>();
+  #recordings: MockDefinition[] = [];
+  #writingRecordings: Promise<void> = Promise.resolve();
+  #server: http.Server | https.Server | null = null;
+  #tls: HttpsOptions | null = null;
   readonly #app = express();
 
   /**
@@ -109,7 +335,7 @@ export class MockServer {
    * @example
    * const mockServer = new MockServer({ port: 3000 });
    */
-  constructor(private readonly options: Options) {
+  constructor(private readonly options: Options = {}) {
     this.#app.use(bodyParser.raw({ type: "*/*" }));
 
     this.#app.use((req, res, next) => {
@@ -119,56 +345,21 @@ export class MockServer {
       next();
     });
 
-    // eslint-disable-next-line @typescript-eslint/no-empty-object-type
-    this.#app.all<"*", {}, unknown, Buffer | undefined>(
-      "*",
-      async (req, res) => {
-        const matches = this.#mocks.filter(({ matcher }) =>
-          matchRequest(matcher, req),
-        );
-
-        if (matches.length === 0) {
-          console.warn("Unmatched", req.method, req.path);
-          return res.status(404).end();
-        }
-
-        const match = matches.length === 1 ? matches[0] : matches.at(-1)!;
+    if (options.admin) {
+      this.#app.use(
+        typeof options.admin === "string" ? options.admin : defaultAdminPath,
+        createAdminRouter(this),
+      );
+    }
 
-        this.#calls.push({
-          request: req,
-          matcher: match.matcher,
+    // errors thrown while handling a request (e.g. by a matcher function) end in a 500
+    this.#app.all<"*", Record<string, string>, unknown, Buffer | undefined>(
+      "*",
+      (req, res) => {
+        this.#handleRequest(req, res).catch((error: unknown) => {
+          console.error(error);
+          res.status(500).end();
         });
-
-        if (matches.length > 1 && !match.options.overwrite) {
-          console.warn("Ambiguous", req.method, req.path);
-          console.warn("use overwrite: true");
-          return res.status(404).end();
-        }
-
-        const response =
-          typeof match.response === "function"
-            ? await match.response(req)
-            : match.response;
-
-        if (response.delay) await setTimeout(response.delay);
-
-        res.status(response.status ?? 200);
-
-        if (response.headers) {
-          Object.entries(response.headers).forEach(([k, v]) =>
-            res.header(k, v),
-          );
-        }
-
-        if (response.body) {
-          res.send(
-            typeof response.body === "string"
-              ? response.body
-              : JSON.stringify(response.body),
-          );
-        }
-
-        res.end();
       },
     );
   }
@@ -176,23 +367,47 @@ export class MockServer {
   /**
    * Start the mock server.
    * @async
-   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#start-promisevoid}
+   * @returns {Promise<AddressInfo>} the address the mock server is bound to
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#start-promiseaddressinfo}
    * @example
    * await mockServer.start();
    */
-  public start(): Promise<void> {
+  public async start(): Promise<AddressInfo> {
     if (this.#server) {
       console.warn("Server is already running");
-      return Promise.resolve();
+      return this.#server.address() as AddressInfo;
     }
 
-    return new Promise((resolve) => {
-      this.#server = this.#app.listen(this.options.port, resolve);
+    if (this.options.https && !this.#tls) {
+      this.#tls =
+        this.options.https === true
+          ? await generateCertificate()
+          : this.options.https;
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = this.#tls
+        ? https.createServer(this.#tls, this.#app)
+        : http.createServer(this.#app);
+
+      const onError = (error: Error) => {
+        this.#server = null;
+        reject(error);
+      };
+
+      server.once("error", onError).once("listening", () => {
+        server.off("error", onError);
+        resolve(server.address() as AddressInfo);
+      });
+
+      server.listen(this.options.port ?? 0);
+      this.#server = server;
     });
   }
 
   /**
-   * Stop the mock server.
+   * Stop the mock server -
+   * If the [`failOnUnmatched`]{@link https://github.com/joshuajaco/mocaron#options} option is set, the returned promise rejects if any request did not match a mock
    * @async
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#stop-promisevoid}
    * @example
@@ -200,25 +415,60 @@ export class MockServer {
    */
   public stop(): Promise<void> {
     const server = this.#server;
-    if (server) return new Promise((resolve) => server.close(() => resolve()));
-    console.warn("No server is running");
-    return Promise.resolve();
+
+    if (!server) {
+      console.warn("No server is running");
+      return Promise.resolve();
+    }
+
+    this.#server = null;
+
+    return new Promise<void>((resolve) => server.close(() => resolve()))
+      .then(() => this.#writingRecordings)
+      .then(() => {
+        if (this.options.failOnUnmatched) this.verify();
+      });
   }
 
   /**
-   * Get the port the mock server is running on.
+   * Get the port the mock server is running on -
+   * If the server is not running, the configured port is returned
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#port-number}
    * @example
    * mockServer.port();
    */
   public port(): number {
-    return this.options.port;
+    const address = this.#server?.address();
+    if (address && typeof address === "object") return address.port;
+    return this.options.port ?? 0;
+  }
+
+  /**
+   * Get the URL the mock server is running on.
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#url-string}
+   * @example
+   * await fetch(`${mockServer.url()}/test`);
+   */
+  public url(): string {
+    return `${this.options.https ? "https" : "http"}://localhost:${this.port()}`;
+  }
+
+  /**
+   * Get the certificate the mock server uses for HTTPS -
+   * Pass it as a trusted CA to your HTTP client to accept the self-signed certificate
+   * @returns {string | null} the certificate in PEM format - `null` if HTTPS is disabled or the certificate has not been generated yet
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#certificate-string--null}
+   * @example
+   * https.get(mockServer.url(), { ca: mockServer.certificate() });
+   */
+  public certificate(): string | null {
+    return this.#tls?.cert.toString() ?? null;
   }
 
   /**
    * Register a mock.
    * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
-   * @param {string | number | Response} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code
+   * @param {string | number | Response | Array<string | number | Response>} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code - If response is an array, the responses will be served in order
    * @param {MockOptions} [options={}] mock options
    * @returns {MockServer} this
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockmatcher-response-options-mockserver}
@@ -227,29 +477,80 @@ export class MockServer {
    */
   public mock(
     matcher: string | RegExp | Matcher,
-    response: string | number | Response,
+    response: string | number | Response | Array<string | number | Response>,
     options: MockOptions = {},
   ): this {
-    matcher = this.#resolvePathMatcher(matcher);
-
-    this.#mocks.push({
-      matcher,
-      response:
-        typeof response === "string"
-          ? { body: response }
-          : typeof response === "number"
-            ? { status: response }
-            : response,
+    this.add(matcher, response, options);
+    return this;
+  }
+
+  /**
+   * Register a mock and get a handle to remove or update it.
+   * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @param {string | number | Response | Array<string | number | Response>} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code - If response is an array, the responses will be served in order
+   * @param {MockOptions} [options={}] mock options
+   * @returns {MockHandle} handle of the registered mock
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#addmatcher-response-options-mockhandle}
+   * @example
+   * const users = mockServer.add("/users", 200);
+   * users.update(503);
+   */
+  public add(
+    matcher: string | RegExp | Matcher,
+    response: string | number | Response | Array<string | number | Response>,
+    options: MockOptions = {},
+  ): MockHandle {
+    const mock: Mock = {
+      matcher: resolvePathMatcher(matcher),
+      response: this.#resolveResponses(response),
       options,
-    });
+    };
 
-    return this;
+    this.#mocks.push(mock);
+
+    const handle: MockHandle = {
+      mock,
+      remove: () => {
+        this.#mocks = this.#mocks.filter((m) => m !== mock);
+      },
+      update: (newResponse) => {
+        if (!this.#mocks.includes(mock)) {
+          throw new Error("Cannot update a removed mock");
+        }
+
+        mock.response = this.#resolveResponses(newResponse);
+        this.#timesMatched.delete(mock);
+        return handle;
+      },
+      calls: () => this.mockCalls(mock),
+      countCalls: () => this.mockCalls(mock).length,
+    };
+
+    return handle;
+  }
+
+  /**
+   * Register a mock that only responds once.
+   * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @param {string | number | Response | Array<string | number | Response>} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code - If response is an array, the responses will be served in order
+   * @param {Omit<MockOptions, "times">} [options={}] mock options
+   * @returns {MockServer} this
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#oncematcher-response-options-mockserver}
+   * @example
+   * mockServer.once("/test", 503).get("/test", 200);
+   */
+  public once(
+    matcher: string | RegExp | Matcher,
+    response: string | number | Response | Array<string | number | Response>,
+    options: Omit<MockOptions, "times"> = {},
+  ): this {
+    return this.mock(matcher, response, { ...options, times: 1 });
   }
 
   /**
    * Register a mock that only responds to requests using the http `GET` method.
    * @param {string | RegExp | Omit<MatcherObj, "method">} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
-   * @param {string | number | Response} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code
+   * @param {string | number | Response | Array<string | number | Response>} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code - If response is an array, the responses will be served in order
    * @param {MockOptions} [options={}] mock options
    * @returns {MockServer} this
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#getmatcher-response-options-mockserver}
@@ -261,7 +562,7 @@ export class MockServer {
    */
   public get(
     matcher: string | RegExp | Omit<MatcherObj, "method">,
-    response: string | number | Response,
+    response: string | number | Response | Array<string | number | Response>,
     options: MockOptions = {},
   ): this {
     return this.mock(this.#applyMethod("GET", matcher), response, options);
@@ -270,7 +571,7 @@ export class MockServer {
   /**
    * Register a mock that only responds to requests using the http `POST` method.
    * @param {string | RegExp | Omit<MatcherObj, "method">} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
-   * @param {string | number | Response} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code
+   * @param {string | number | Response | Array<string | number | Response>} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code - If response is an array, the responses will be served in order
    * @param {MockOptions} [options={}] mock options
    * @returns {MockServer} this
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#postmatcher-response-options-mockserver}
@@ -282,7 +583,7 @@ export class MockServer {
    */
   public post(
     matcher: string | RegExp | Omit<MatcherObj, "method">,
-    response: string | number | Response,
+    response: string | number | Response | Array<string | number | Response>,
     options: MockOptions = {},
   ): this {
     return this.mock(this.#applyMethod("POST", matcher), response, options);
@@ -291,7 +592,7 @@ export class MockServer {
   /**
    * Register a mock that only responds to requests using the http `PUT` method.
    * @param {string | RegExp | Omit<MatcherObj, "method">} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
-   * @param {string | number | Response} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code
+   * @param {string | number | Response | Array<string | number | Response>} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code - If response is an array, the responses will be served in order
    * @param {MockOptions} [options={}] mock options
    * @returns {MockServer} this
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#postmatcher-response-options-mockserver}
@@ -303,7 +604,7 @@ export class MockServer {
    */
   public put(
     matcher: string | RegExp | Omit<MatcherObj, "method">,
-    response: string | number | Response,
+    response: string | number | Response | Array<string | number | Response>,
     options: MockOptions = {},
   ): this {
     return this.mock(this.#applyMethod("PUT", matcher), response, options);
@@ -312,7 +613,7 @@ export class MockServer {
   /**
    * Register a mock that only responds to requests using the http `PATCH` method.
    * @param {string | RegExp | Omit<MatcherObj, "method">} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
-   * @param {string | number | Response} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code
+   * @param {string | number | Response | Array<string | number | Response>} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code - If response is an array, the responses will be served in order
    * @param {MockOptions} [options={}] mock options
    * @returns {MockServer} this
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#patchmatcher-response-options-mockserver}
@@ -324,7 +625,7 @@ export class MockServer {
    */
   public patch(
     matcher: string | RegExp | Omit<MatcherObj, "method">,
-    response: string | number | Response,
+    response: string | number | Response | Array<string | number | Response>,
     options: MockOptions = {},
   ): this {
     return this.mock(this.#applyMethod("PATCH", matcher), response, options);
@@ -333,7 +634,7 @@ export class MockServer {
   /**
    * Register a mock that only responds to requests using the http `DELETE` method.
    * @param {string | RegExp | Omit<MatcherObj, "method">} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
-   * @param {string | number | Response} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code
+   * @param {string | number | Response | Array<string | number | Response>} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code - If response is an array, the responses will be served in order
    * @param {MockOptions} [options={}] mock options
    * @returns {MockServer} this
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#deletematcher-response-options-mockserver}
@@ -342,12 +643,56 @@ export class MockServer {
    */
   public delete(
     matcher: string | RegExp | Omit<MatcherObj, "method">,
-    response: string | number | Response,
+    response: string | number | Response | Array<string | number | Response>,
     options: MockOptions = {},
   ): this {
     return this.mock(this.#applyMethod("DELETE", matcher), response, options);
   }
 
+  /**
+   * Register mocks from a fixture file or all fixture files (`.json`, `.yaml`, `.yml`) in a directory.
+   * @async
+   * @param {string} path fixture file or directory
+   * @returns {Promise<MockServer>} this
+   * @throws {FixtureError} if a fixture file is invalid
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#loadpath-promisemockserver}
+   * @example
+   * await mockServer.load("fixtures");
+   */
+  public async load(path: string): Promise<this> {
+    const mocks = await loadFixtures(path);
+    mocks.forEach(({ matcher, response, options }) =>
+      this.mock(matcher, response, options),
+    );
+    return this;
+  }
+
+  /**
+   * Export all registered mocks as fixtures.
+   * @returns {FixtureMock[]} the registered mocks as fixtures
+   * @throws {Error} if a mock uses a `MatcherFn` or `ResponseFn`
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#export-fixturemock}
+   * @example
+   * mockServer.export();
+   */
+  public export(): FixtureMock[] {
+    return this.#mocks.map(serializeMock);
+  }
+
+  /**
+   * Write all registered mocks to a fixture file -
+   * Files ending in `.yaml` or `.yml` are written as YAML, all others as JSON
+   * @async
+   * @param {string} file fixture file to write to
+   * @throws {Error} if a mock uses a `MatcherFn` or `ResponseFn`
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#savefile-promisevoid}
+   * @example
+   * await mockServer.save("fixtures/mocks.json");
+   */
+  public async save(file: string): Promise<void> {
+    await writeFile(file, stringifyFixtures(this.export(), file));
+  }
+
   /**
    * Get all registered mocks.
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mocks-readonly-mock}
@@ -368,6 +713,79 @@ export class MockServer {
     return this.#calls.slice();
   }
 
+  /**
+   * Get all calls served by the given mock.
+   * @param {Mock} mock registered mock, e.g. from [`mocks()`]{@link https://github.com/joshuajaco/mocaron#mocks-readonly-mock}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockcallsmock-readonly-call}
+   * @example
+   * mockServer.mockCalls(mockServer.mocks()[0]);
+   */
+  public mockCalls(mock: Mock): readonly Call[] {
+    return this.#calls.filter((call) => call.mock === mock && !call.ambiguous);
+  }
+
+  /**
+   * Get all registered mocks that have not been called.
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#uncalledmocks-readonly-mock}
+   * @example
+   * mockServer.uncalledMocks();
+   */
+  public uncalledMocks(): readonly Mock[] {
+    return this.#mocks.filter((mock) => this.mockCalls(mock).length === 0);
+  }
+
+  /**
+   * Assert that all registered mocks have been called.
+   * @throws {Error} listing the mocks that have not been called
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#assertallmockscalled-void}
+   * @example
+   * afterEach(() => mockServer.assertAllMocksCalled());
+   */
+  public assertAllMocksCalled(): void {
+    const uncalled = this.uncalledMocks();
+    if (uncalled.length === 0) return;
+
+    throw new Error(
+      [
+        `Expected all mocks to have been called, ${uncalled.length} ${uncalled.length === 1 ? "mock has" : "mocks have"} not been called:`,
+        ...uncalled.map(({ matcher }) => `  - ${describeMatcher(matcher)}`),
+      ].join("\n"),
+    );
+  }
+
+  /**
+   * Get all requests that did not match any mock.
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#unmatchedcalls-readonly-unmatchedcall}
+   * @example
+   * mockServer.unmatchedCalls();
+   */
+  public unmatchedCalls(): readonly UnmatchedCall[] {
+    return this.#unmatchedCalls.slice();
+  }
+
+  /**
+   * Assert that every request matched a mock.
+   * @throws {Error} listing the requests that did not match with a diff against the closest mocks
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#verify-void}
+   * @example
+   * afterEach(() => mockServer.verify());
+   */
+  public verify(): void {
+    if (this.#unmatchedCalls.length === 0) return;
+    throw new Error(ExpectationMessage.hasNoUnmatchedCalls(this));
+  }
+
+  /**
+   * Get all requests recorded by the [proxy]{@link https://github.com/joshuajaco/mocaron#proxying-unmatched-requests} as mock definitions -
+   * only the latest response of repeated requests is kept
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#recordings-readonly-mockdefinition}
+   * @example
+   * mockServer.recordings();
+   */
+  public recordings(): readonly MockDefinition[] {
+    return this.#recordings.slice();
+  }
+
   /**
    * Check if the route has been called with the given `matcher`.
    * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
@@ -377,7 +795,7 @@ export class MockServer {
    * mockServer.hasBeenCalledWith({ path: "/test" });
    */
   public hasBeenCalledWith(matcher: string | RegExp | Matcher): boolean {
-    const resolved = this.#resolvePathMatcher(matcher);
+    const resolved = resolvePathMatcher(matcher);
     return this.#calls.some(({ request }) => matchRequest(resolved, request));
   }
 
@@ -390,7 +808,7 @@ export class MockServer {
    * mockServer.countCalls({ path: "/test" });
    */
   public countCalls(matcher: string | RegExp | Matcher): number {
-    const resolved = this.#resolvePathMatcher(matcher);
+    const resolved = resolvePathMatcher(matcher);
     return this.#calls.filter(({ request }) => matchRequest(resolved, request))
       .length;
   }
@@ -412,7 +830,157 @@ export class MockServer {
   }
 
   /**
-   * Reset all mocks and calls.
+   * Check if the `n`th call of the server matched the given `matcher`.
+   * @param {number} n - position of the call, starting at `1`
+   * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @returns {boolean} `true` if the `n`th call matched the given `matcher`, `false` otherwise
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasbeennthcalledwithn-matcher-boolean}
+   * @example
+   * mockServer.hasBeenNthCalledWith(2, { path: "/test" });
+   */
+  public hasBeenNthCalledWith(
+    n: number,
+    matcher: string | RegExp | Matcher,
+  ): boolean {
+    const call = this.#calls[n - 1];
+    return !!call && matchRequest(resolvePathMatcher(matcher), call.request);
+  }
+
+  /**
+   * Check if the last call of the server matched the given `matcher`.
+   * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @returns {boolean} `true` if the last call matched the given `matcher`, `false` otherwise
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasbeenlastcalledwithmatcher-boolean}
+   * @example
+   * mockServer.hasBeenLastCalledWith({ path: "/test" });
+   */
+  public hasBeenLastCalledWith(matcher: string | RegExp | Matcher): boolean {
+    return this.hasBeenNthCalledWith(this.#calls.length, matcher);
+  }
+
+  /**
+   * Check if the server has been called with the given `matchers` in order -
+   * Other calls may happen in between unless `strict` is set
+   * @param {Array<string | RegExp | Matcher>} matchers - If a matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @param {object} [options={}]
+   * @param {boolean} [options.strict=false] - when set to `true`, the calls must match exactly the given `matchers` in order without any other calls
+   * @returns {boolean} `true` if the server has been called with the given `matchers` in order, `false` otherwise
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#hasbeencalledinordermatchers-options-boolean}
+   * @example
+   * mockServer.hasBeenCalledInOrder([{ method: "POST", path: "/orders" }, "/orders/1"]);
+   */
+  public hasBeenCalledInOrder(
+    matchers: ReadonlyArray<string | RegExp | Matcher>,
+    options: { strict?: boolean } = {},
+  ): boolean {
+    const resolved = matchers.map((m) => resolvePathMatcher(m));
+    const requests = this.#calls.map(({ request }) => request);
+
+    if (options.strict) {
+      return (
+        requests.length === resolved.length &&
+        requests.every((request, i) => matchRequest(resolved[i], request))
+      );
+    }
+
+    return matchInOrder(resolved, requests).length === resolved.length;
+  }
+
+  /**
+   * Wait until the server has been called with the given `matcher` -
+   * Calls that happened before are taken into account
+   * @async
+   * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @param {object} [options={}]
+   * @param {number} [options.timeout=1000] - time in milliseconds to wait before rejecting
+   * @returns {Promise<Call>} the first call matching the given `matcher`
+   * @throws {Error} with an [expectation message]{@link https://github.com/joshuajaco/mocaron#hasbeencalledwithmockserver-matcher-options-string} if the timeout is exceeded
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#waitforcallmatcher-options-promisecall}
+   * @example
+   * const call = await mockServer.waitForCall({ method: "POST", path: "/webhook" });
+   */
+  public async waitForCall(
+    matcher: string | RegExp | Matcher,
+    options: { timeout?: number } = {},
+  ): Promise<Call> {
+    const [call] = await this.waitForCalls(matcher, options);
+    return call;
+  }
+
+  /**
+   * Wait until the server has been called a certain number of times with the given `matcher` -
+   * Calls that happened before are taken into account
+   * @async
+   * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @param {object} [options={}]
+   * @param {number} [options.times=1] - number of calls to wait for
+   * @param {number} [options.timeout=1000] - time in milliseconds to wait before rejecting
+   * @returns {Promise<Call[]>} the first `times` calls matching the given `matcher`
+   * @throws {Error} with an [expectation message]{@link https://github.com/joshuajaco/mocaron#hasbeencalledtimesmockserver-times-matcher-options-string} if the timeout is exceeded
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#waitforcallsmatcher-options-promisecall}
+   * @example
+   * const calls = await mockServer.waitForCalls("/sync", { times: 3 });
+   */
+  public waitForCalls(
+    matcher: string | RegExp | Matcher,
+    options: { times?: number; timeout?: number } = {},
+  ): Promise<Call[]> {
+    const { times = 1, timeout = 1000 } = options;
+    const resolved = resolvePathMatcher(matcher);
+
+    return new Promise((resolve, reject) => {
+      const listener = () => {
+        const calls = this.#calls.filter(({ request }) =>
+          matchRequest(resolved, request),
+        );
+
+        if (calls.length < times) return;
+
+        this.#callListeners.delete(listener);
+        clearTimeout(timer);
+        resolve(calls.slice(0, times));
+      };
+
+      const timer = globalThis.setTimeout(() => {
+        this.#callListeners.delete(listener);
+        reject(
+          new Error(
+            `Timed out after ${timeout}ms\n\n${ExpectationMessage.hasBeenCalledTimes(this, times, resolved)}`,
+          ),
+        );
+      }, timeout);
+
+      this.#callListeners.add(listener);
+      listener();
+    });
+  }
+
+  /**
+   * Get the current state of a scenario.
+   * @param {string} scenario name of the scenario
+   * @returns {string} the current state of the scenario - `"started"` if it has not transitioned yet
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#scenariostatescenario-string}
+   * @example
+   * mockServer.scenarioState("checkout");
+   */
+  public scenarioState(scenario: string): string {
+    return this.#scenarios.get(scenario) ?? "started";
+  }
+
+  /**
+   * Set the current state of a scenario.
+   * @param {string} scenario name of the scenario
+   * @param {string} state state to transition the scenario to
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#setscenariostatescenario-state-void}
+   * @example
+   * mockServer.setScenarioState("checkout", "paid");
+   */
+  public setScenarioState(scenario: string, state: string): void {
+    this.#scenarios.set(scenario, state);
+  }
+
+  /**
+   * Reset all mocks, calls and scenarios.
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#reset-void}
    * @example
    * mockServer.reset();
@@ -420,6 +988,7 @@ export class MockServer {
   public reset(): void {
     this.resetMocks();
     this.resetCalls();
+    this.resetScenarios();
   }
 
   /**
@@ -433,19 +1002,216 @@ export class MockServer {
   }
 
   /**
-   * Reset all calls.
+   * Reset all calls, including unmatched calls.
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#resetcalls-void}
    * @example
    * mockServer.resetCalls();
    */
   public resetCalls(): void {
     this.#calls = [];
+    this.#unmatchedCalls = [];
   }
 
-  #resolvePathMatcher(matcher: string | RegExp | Matcher): Matcher {
-    return typeof matcher === "string" || matcher instanceof RegExp
-      ? { path: matcher }
-      : matcher;
+  /**
+   * Reset all scenarios to the `"started"` state.
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#resetscenarios-void}
+   * @example
+   * mockServer.resetScenarios();
+   */
+  public resetScenarios(): void {
+    this.#scenarios.clear();
+  }
+
+  async #proxy(req: Request, res: express.Response): Promise<void> {
+    const { target, record = false } =
+      typeof this.options.proxy === "string"
+        ? { target: this.options.proxy }
+        : this.options.proxy!;
+
+    let response;
+
+    try {
+      response = await proxyRequest(target, req);
+    } catch (error) {
+      console.warn("Proxy error", req.method, req.path, error);
+      res.status(502).end();
+      return;
+    }
+
+    if (record) {
+      const recording = toMockDefinition(req, response);
+
+      // repeated requests replace their previous recording to keep the recordings loadable without ambiguous mocks
+      this.#recordings = this.#recordings
+        .filter(
+          ({ matcher }) =>
+            !deepEqual(matcher, recording.matcher, { strict: true }),
+        )
+        .concat(recording);
+
+      if (typeof record === "string") {
+        const recordings = JSON.stringify(this.#recordings, null, 2);
+        this.#writingRecordings = this.#writingRecordings
+          .then(() => writeFile(record, recordings))
+          .catch((error) => console.warn("Recording error", record, error));
+      }
+    }
+
+    res.status(response.status);
+    Object.entries(response.headers).forEach(([k, v]) => res.header(k, v));
+    res.send(response.body);
+  }
+
+  async #handleRequest(req: Request, res: express.Response): Promise<void> {
+    const matches = this.#highestPriority(
+      this.#mocks.filter(
+        (mock) =>
+          !this.#isExhausted(mock) &&
+          this.#matchState(mock) &&
+          matchRequest(mock.matcher, req),
+      ),
+    );
+
+    if (matches.length === 0) {
+      if (this.options.proxy) return this.#proxy(req, res);
+
+      const call: UnmatchedCall = {
+        request: req,
+        body: parseBody(req),
+        closestMocks: closestMocks(this.#mocks, req),
+      };
+
+      this.#unmatchedCalls.push(call);
+
+      if (this.options.onUnmatched) this.options.onUnmatched(req, call);
+      else {
+        console.warn("Unmatched", req.method, req.path);
+        if (call.closestMocks.length > 0) {
+          console.warn(ExpectationMessage.unmatchedCall(this, call));
+        }
+      }
+
+      res.status(404).end();
+      return;
+    }
+
+    const limited = matches.find((mock) => this.#limit(mock) != null);
+    const match = limited ?? matches.at(-1)!;
+    const index = this.#timesMatched.get(match) ?? 0;
+    const ambiguous =
+      !limited && matches.length > 1 && !match.options.overwrite;
+
+    req.params = extractParams(match.matcher, req);
+
+    this.#calls.push({
+      request: req,
+      mock: match,
+      matcher: match.matcher,
+      params: req.params,
+      index,
+      ambiguous,
+      body: parseBody(req),
+    });
+
+    this.#callListeners.forEach((listener) => listener());
+
+    if (ambiguous) {
+      if (this.options.onAmbiguous) {
+        this.options.onAmbiguous(req, matches);
+      } else {
+        console.warn("Ambiguous", req.method, req.path);
+        console.warn("use overwrite: true");
+      }
+
+      res.status(404).end();
+      return;
+    }
+
+    this.#timesMatched.set(match, index + 1);
+
+    const { scenario, newState } = match.options;
+    if (scenario != null && newState != null) {
+      this.#scenarios.set(scenario, newState);
+    }
+
+    const current = this.#selectResponse(match, index);
+
+    const response =
+      typeof current === "function" ? await current(req) : current;
+
+    if (response.delay) await setTimeout(response.delay);
+
+    res.status(response.status ?? 200);
+
+    if (response.headers) {
+      Object.entries(response.headers).forEach(([k, v]) => res.header(k, v));
+    }
+
+    if (response.body) {
+      res.send(
+        typeof response.body === "string"
+          ? response.body
+          : JSON.stringify(response.body),
+      );
+    }
+
+    res.end();
+  }
+
+  #limit(mock: Mock): number | undefined {
+    const { times, sequenceEnd } = mock.options;
+
+    if (!Array.isArray(mock.response) || sequenceEnd !== "fallthrough") {
+      return times;
+    }
+
+    return Math.min(times ?? Infinity, mock.response.length);
+  }
+
+  #highestPriority(mocks: Mock[]): Mock[] {
+    const priority = Math.max(...mocks.map((m) => m.options.priority ?? 0));
+    return mocks.filter((m) => (m.options.priority ?? 0) === priority);
+  }
+
+  #isExhausted(mock: Mock): boolean {
+    const limit = this.#limit(mock);
+    return limit != null && (this.#timesMatched.get(mock) ?? 0) >= limit;
+  }
+
+  #matchState(mock: Mock): boolean {
+    const { scenario, requiredState } = mock.options;
+    if (scenario == null || requiredState == null) return true;
+    return this.scenarioState(scenario) === requiredState;
+  }
+
+  #selectResponse(mock: Mock, index: number): Response {
+    if (!Array.isArray(mock.response)) return mock.response;
+
+    const { length } = mock.response;
+
+    return mock.options.sequenceEnd === "loop"
+      ? mock.response[index % length]
+      : mock.response[Math.min(index, length - 1)];
+  }
+
+  #resolveResponses(
+    response: string | number | Response | Array<string | number | Response>,
+  ): Response | Response[] {
+    if (!Array.isArray(response)) return this.#resolveResponse(response);
+
+    if (response.length === 0) {
+      throw new Error("Response sequence must contain at least one response");
+    }
+
+    return response.map((r) => this.#resolveResponse(r));
+  }
+
+  #resolveResponse(response: string | number | Response): Response {
+    return typeof response === "string"
+      ? { body: response }
+      : typeof response === "number"
+        ? { status: response }
+        : response;
   }
 
   #applyMethod(
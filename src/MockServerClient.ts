@@ -0,0 +1,151 @@
+import { defaultAdminPath, type AdminCall } from "./admin";
+import { serializeMatcher, type FixtureMock } from "./fixtures";
+import type { MatcherObj } from "./matchRequest";
+import type { MockOptions } from "./MockServer";
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockserverclientoptions} */
+export type MockServerClientOptions = {
+  /**
+   * path the admin API is mounted on (defaults to `"/__mocaron"`)
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockserverclientoptions}
+   */
+  adminPath?: string;
+};
+
+/**
+ * client for the [admin API]{@link https://github.com/joshuajaco/mocaron#admin-api} of a mock server running in another process
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockserverclient}
+ */
+export class MockServerClient {
+  readonly #baseUrl: string;
+
+  /**
+   * Create a new mock server client.
+   * @param {string} url URL of the mock server
+   * @param {MockServerClientOptions} [options={}]
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#constructorurl-options-mockserverclient}
+   * @example
+   * const client = new MockServerClient("http://localhost:3000");
+   */
+  constructor(url: string, options: MockServerClientOptions = {}) {
+    const adminPath = options.adminPath ?? defaultAdminPath;
+    this.#baseUrl = `${url.replace(/\/$/, "")}${adminPath}`;
+  }
+
+  /**
+   * Register a mock.
+   * @async
+   * @param {string | RegExp | MatcherObj} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @param {FixtureMock["response"]} response - If response is a `string`, it will be used as the response body - If response is a `number`, it will be used as the response status code - If response is an array, the responses will be served in order
+   * @param {MockOptions} [options={}] mock options
+   * @returns {Promise<MockServerClient>} this
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mockmatcher-response-options-promisemockserverclient}
+   * @example
+   * await client.mock({ path: "/test" }, { status: 204 });
+   */
+  public async mock(
+    matcher: string | RegExp | MatcherObj,
+    response: FixtureMock["response"],
+    options: MockOptions = {},
+  ): Promise<this> {
+    const serialized = serializeMatcher(
+      typeof matcher === "string" || matcher instanceof RegExp
+        ? { path: matcher }
+        : matcher,
+    );
+
+    if (!serialized) {
+      throw new Error("Asymmetric matchers cannot be sent to the admin API");
+    }
+
+    const fixture: FixtureMock = { matcher: serialized, response, options };
+
+    await this.#request("POST", "/mocks", fixture);
+    return this;
+  }
+
+  /**
+   * Get all registered mocks.
+   * @async
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#mocks-promisefixturemock}
+   * @example
+   * await client.mocks();
+   */
+  public async mocks(): Promise<FixtureMock[]> {
+    return (await this.#request("GET", "/mocks")).json();
+  }
+
+  /**
+   * Get all registered calls.
+   * @async
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#calls-promiseadmincall}
+   * @example
+   * await client.calls();
+   */
+  public async calls(): Promise<AdminCall[]> {
+    return (await this.#request("GET", "/calls")).json();
+  }
+
+  /**
+   * Reset all mocks, calls and scenarios.
+   * @async
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#reset-promisevoid}
+   * @example
+   * await client.reset();
+   */
+  public async reset(): Promise<void> {
+    await this.#request("POST", "/reset");
+  }
+
+  /**
+   * Reset all mocks.
+   * @async
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#resetmocks-promisevoid}
+   * @example
+   * await client.resetMocks();
+   */
+  public async resetMocks(): Promise<void> {
+    await this.#request("DELETE", "/mocks");
+  }
+
+  /**
+   * Reset all calls.
+   * @async
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#resetcalls-promisevoid}
+   * @example
+   * await client.resetCalls();
+   */
+  public async resetCalls(): Promise<void> {
+    await this.#request("DELETE", "/calls");
+  }
+
+  async #request(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<globalThis.Response> {
+    const response = await fetch(`${this.#baseUrl}${path}`, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const error = parseError(await response.text());
+      throw new Error(
+        `${method} ${path} failed (${response.status})${error ? `: ${error}` : ""}`,
+      );
+    }
+
+    return response;
+  }
+}
+
+// servers without the admin API (or proxies in front of it) may not respond with a JSON error
+function parseError(body: string): string {
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
@@ -0,0 +1,137 @@
+import express from "express";
+import type http from "node:http";
+import type { MockServer } from "./MockServer";
+import type { Request } from "./matchRequest";
+import {
+  FixtureError,
+  parseFixtures,
+  serializeMatcher,
+  type FixtureMatcher,
+} from "./fixtures";
+
+export const defaultAdminPath = "/__mocaron";
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#admincall} */
+export type AdminCall = {
+  /**
+   * request the server was called with
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#admincall}
+   */
+  request: {
+    method: string;
+    path: string;
+    query: Request["query"];
+    headers: http.IncomingHttpHeaders;
+    body?: string;
+  };
+  /**
+   * matcher the request matched against - `null` if the matcher is a function, a composite matcher or contains asymmetric matchers
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#admincall}
+   */
+  matcher: FixtureMatcher | null;
+  /**
+   * path parameters extracted by the matcher
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#admincall}
+   */
+  params: Record<string, string>;
+  /**
+   * number of times the matched mock had been called before this call
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#admincall}
+   */
+  index: number;
+  /**
+   * whether the request matched [ambiguous mocks]{@link https://github.com/joshuajaco/mocaron#ambiguous-mocks} and was not served
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#admincall}
+   */
+  ambiguous: boolean;
+  /**
+   * [parsed request body]{@link https://github.com/joshuajaco/mocaron#parsebodyreq-unknown}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#admincall}
+   */
+  body: unknown;
+};
+
+export function createAdminRouter(mockServer: MockServer): express.Router {
+  const router = express.Router();
+
+  router.get("/mocks", (req, res) => {
+    try {
+      res.json(mockServer.export());
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  router.post("/mocks", async (req: Request, res) => {
+    const source = `${req.method} ${req.originalUrl}`;
+
+    try {
+      const content = parseJson(req.body, source);
+      const mocks = await parseFixtures(
+        Array.isArray(content) ? content : [content],
+        source,
+      );
+
+      mocks.forEach(({ matcher, response, options }) =>
+        mockServer.mock(matcher, response, options),
+      );
+
+      res.status(201).end();
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  });
+
+  router.delete("/mocks", (req, res) => {
+    mockServer.resetMocks();
+    res.status(204).end();
+  });
+
+  router.get("/calls", (req, res) => {
+    res.json(
+      mockServer.calls().map(
+        ({ request, matcher, params, index, ambiguous, body }): AdminCall => ({
+          request: {
+            method: request.method,
+            path: request.path,
+            query: request.query,
+            headers: request.headers,
+            body: request.body?.toString(),
+          },
+          matcher: serializeMatcher(matcher),
+          params,
+          index,
+          ambiguous,
+          body,
+        }),
+      ),
+    );
+  });
+
+  router.delete("/calls", (req, res) => {
+    mockServer.resetCalls();
+    res.status(204).end();
+  });
+
+  router.post("/reset", (req, res) => {
+    mockServer.reset();
+    res.status(204).end();
+  });
+
+  // admin requests must never fall through to the registered mocks
+  router.all("*", (req, res) => {
+    res.status(404).json({
+      error: `Unknown admin route ${req.method} ${req.originalUrl}`,
+    });
+  });
+
+  return router;
+}
+
+function parseJson(body: Buffer | undefined, source: string): unknown {
+  try {
+    return JSON.parse(body?.toString() ?? "");
+  } catch (error) {
+    throw new FixtureError(source, undefined, (error as Error).message);
+  }
+}
@@ -0,0 +1,112 @@
+import { AssertionError } from "node:assert";
+import type { MockServer } from "./MockServer";
+import { ExpectationMessage } from "./ExpectationMessage";
+import { resolvePathMatcher, type Matcher } from "./matchRequest";
+
+/**
+ * Assert that the mock server has been called with the given `matcher`.
+ * @param {MockServer} mockServer The mock server instance
+ * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+ * @throws {AssertionError} with the [expectation message]{@link https://github.com/joshuajaco/mocaron#hasbeencalledwithmockserver-matcher-options-string}
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#nodejs-test-runner}
+ * @example
+ * assertCalledWith(mockServer, { path: "/test" });
+ */
+export function assertCalledWith(
+  mockServer: MockServer,
+  matcher: string | RegExp | Matcher,
+): void {
+  const resolved = resolvePathMatcher(matcher);
+
+  if (!mockServer.hasBeenCalledWith(resolved)) {
+    fail(ExpectationMessage.hasBeenCalledWith(mockServer, resolved));
+  }
+}
+
+/**
+ * Assert that the mock server has not been called with the given `matcher`.
+ * @param {MockServer} mockServer The mock server instance
+ * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+ * @throws {AssertionError} with the [expectation message]{@link https://github.com/joshuajaco/mocaron#hasnotbeencalledwithmockserver-matcher-string}
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#nodejs-test-runner}
+ * @example
+ * assertNotCalledWith(mockServer, { path: "/test" });
+ */
+export function assertNotCalledWith(
+  mockServer: MockServer,
+  matcher: string | RegExp | Matcher,
+): void {
+  const resolved = resolvePathMatcher(matcher);
+
+  if (mockServer.hasBeenCalledWith(resolved)) {
+    fail(ExpectationMessage.hasNotBeenCalledWith(mockServer, resolved));
+  }
+}
+
+/**
+ * Assert that the mock server has been called a certain number of times with the given `matcher`.
+ * @param {MockServer} mockServer The mock server instance
+ * @param {number} times
+ * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+ * @throws {AssertionError} with the [expectation message]{@link https://github.com/joshuajaco/mocaron#hasbeencalledtimesmockserver-times-matcher-options-string}
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#nodejs-test-runner}
+ * @example
+ * assertCalledTimes(mockServer, 2, { path: "/test" });
+ */
+export function assertCalledTimes(
+  mockServer: MockServer,
+  times: number,
+  matcher: string | RegExp | Matcher,
+): void {
+  const resolved = resolvePathMatcher(matcher);
+
+  if (!mockServer.hasBeenCalledTimes(times, resolved)) {
+    fail(ExpectationMessage.hasBeenCalledTimes(mockServer, times, resolved));
+  }
+}
+
+/**
+ * Assert that the `n`th call of the mock server matched the given `matcher`.
+ * @param {MockServer} mockServer The mock server instance
+ * @param {number} n - position of the call, starting at `1`
+ * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+ * @throws {AssertionError} with the [expectation message]{@link https://github.com/joshuajaco/mocaron#hasbeennthcalledwithmockserver-n-matcher-options-string}
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#nodejs-test-runner}
+ * @example
+ * assertNthCalledWith(mockServer, 1, { method: "POST", path: "/orders" });
+ */
+export function assertNthCalledWith(
+  mockServer: MockServer,
+  n: number,
+  matcher: string | RegExp | Matcher,
+): void {
+  const resolved = resolvePathMatcher(matcher);
+
+  if (!mockServer.hasBeenNthCalledWith(n, resolved)) {
+    fail(ExpectationMessage.hasBeenNthCalledWith(mockServer, n, resolved));
+  }
+}
+
+/**
+ * Assert that the last call of the mock server matched the given `matcher`.
+ * @param {MockServer} mockServer The mock server instance
+ * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+ * @throws {AssertionError} with the [expectation message]{@link https://github.com/joshuajaco/mocaron#hasbeenlastcalledwithmockserver-matcher-options-string}
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#nodejs-test-runner}
+ * @example
+ * assertLastCalledWith(mockServer, { method: "GET", path: "/orders/1" });
+ */
+export function assertLastCalledWith(
+  mockServer: MockServer,
+  matcher: string | RegExp | Matcher,
+): void {
+  const resolved = resolvePathMatcher(matcher);
+
+  if (!mockServer.hasBeenLastCalledWith(resolved)) {
+    fail(ExpectationMessage.hasBeenLastCalledWith(mockServer, resolved));
+  }
+}
+
+function fail(message: string): never {
+  throw new AssertionError({ message });
+}
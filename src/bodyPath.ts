@@ -0,0 +1,67 @@
+import { JSONPath } from "jsonpath-plus";
+
+/**
+ * Select a value of a parsed request body -
+ * expressions starting with `$` are evaluated as JSONPath, all other expressions as JSON Pointer -
+ * JSONPath expressions that can select multiple values (wildcards, recursive descent, filters, slices and unions) always return an array
+ */
+export function selectBodyPath(expression: string, body: unknown): unknown {
+  if (expression.startsWith("$")) return selectJsonPath(expression, body);
+  return selectJsonPointer(expression, body);
+}
+
+function selectJsonPath(expression: string, body: unknown): unknown {
+  if (typeof body !== "object" || body === null) {
+    return expression === "$" ? body : undefined;
+  }
+
+  try {
+    const results: unknown[] = JSONPath({
+      path: expression,
+      json: body,
+      wrap: true,
+      eval: "safe",
+    });
+
+    return selectsMultiple(expression) ? results : results[0];
+  } catch {
+    // invalid expressions never select a value
+    return undefined;
+  }
+}
+
+// depends on the expression only, so the result has the same shape for every body
+function selectsMultiple(expression: string): boolean {
+  return JSONPath.toPathArray(expression).some(
+    (token) =>
+      token === "*" ||
+      token === ".." ||
+      token.startsWith("?(") ||
+      token.includes(",") ||
+      /^-?\d*:-?\d*(:-?\d*)?$/.test(token),
+  );
+}
+
+// See https://datatracker.ietf.org/doc/html/rfc6901
+function selectJsonPointer(pointer: string, body: unknown): unknown {
+  if (pointer === "") return body;
+  if (!pointer.startsWith("/")) return undefined;
+
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((token) => token.replaceAll("~1", "/").replaceAll("~0", "~"))
+    .reduce<unknown>((value, token) => {
+      if (Array.isArray(value)) {
+        return /^(0|[1-9]\d*)$/.test(token) ? value[Number(token)] : undefined;
+      }
+
+      if (typeof value === "object" && value !== null) {
+        return Object.hasOwn(value, token)
+          ? value[token as keyof typeof value]
+          : undefined;
+      }
+
+      return undefined;
+    }, body);
+}
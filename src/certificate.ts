@@ -0,0 +1,29 @@
+import { generate } from "selfsigned";
+
+export function generateCertificate(): Promise<{ key: string; cert: string }> {
+  return new Promise((resolve, reject) =>
+    generate(
+      [{ name: "commonName", value: "localhost" }],
+      {
+        keySize: 2048,
+        algorithm: "sha256",
+        extensions: [
+          { name: "basicConstraints", cA: true },
+          { name: "extKeyUsage", serverAuth: true },
+          {
+            name: "subjectAltName",
+            altNames: [
+              { type: 2, value: "localhost" },
+              { type: 7, ip: "127.0.0.1" },
+              { type: 7, ip: "::1" },
+            ],
+          },
+        ],
+      },
+      (error, result) =>
+        error
+          ? reject(error)
+          : resolve({ key: result.private, cert: result.cert }),
+    ),
+  );
+}
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+import { watch } from "node:fs";
+import { parseArgs } from "node:util";
+import { MockServer } from "./MockServer";
+import { ExpectationMessage } from "./ExpectationMessage";
+import { describeMatcher, type Request } from "./matchRequest";
+import { loadFixtures } from "./fixtures";
+
+const usage = `Usage: mocaron <path> [options]
+
+Start a mock server from a fixture file or directory of fixture files
+
+Options:
+  -p, --port <port>  port to run the mock server on (defaults to a free port)
+  -w, --watch        reload the mocks when the fixture files change
+  -a, --admin        mount the admin API on /__mocaron
+  -h, --help         show this message`;
+
+/**
+ * Run the `mocaron` command line interface.
+ * @param {string[]} args command line arguments without the node executable and script
+ * @returns {Promise<() => Promise<void>>} function stopping the mock server and file watcher
+ */
+export async function cli(args: string[]): Promise<() => Promise<void>> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      port: { type: "string", short: "p" },
+      watch: { type: "boolean", short: "w" },
+      admin: { type: "boolean", short: "a" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(usage);
+    return async () => {};
+  }
+
+  const [path] = positionals;
+  const port = Number(values.port ?? 0);
+
+  if (!path || positionals.length > 1) {
+    throw new Error(`Expected exactly one fixture path\n\n${usage}`);
+  }
+
+  if (!Number.isInteger(port) || port < 0) {
+    throw new Error(`Invalid port: ${values.port}\n\n${usage}`);
+  }
+
+  const mockServer = new MockServer({
+    port,
+    admin: values.admin,
+    onUnmatched: (req, call) =>
+      console.warn(
+        [
+          `Unmatched ${formatRequest(req)}`,
+          ...(call.closestMocks.length > 0
+            ? [ExpectationMessage.unmatchedCall(mockServer, call)]
+            : []),
+        ].join("\n"),
+      ),
+    onAmbiguous: (req, mocks) =>
+      console.warn(
+        [
+          `Ambiguous ${formatRequest(req)} matched ${mocks.length} mocks:`,
+          ...mocks.map(({ matcher }) => `  - ${describeMatcher(matcher)}`),
+          `Set "overwrite: true" on the last mock to use it`,
+        ].join("\n"),
+      ),
+  });
+
+  await mockServer.load(path);
+  await mockServer.start();
+
+  console.log(`Loaded ${mockServer.mocks().length} mocks from ${path}`);
+  console.log(`Mock server listening on ${mockServer.url()}`);
+
+  if (!values.watch) return () => mockServer.stop();
+
+  let timeout: NodeJS.Timeout | undefined;
+
+  const watcher = watch(path, { recursive: true }, () => {
+    clearTimeout(timeout);
+    timeout = setTimeout(() => reload(mockServer, path), 100);
+  });
+
+  return async () => {
+    clearTimeout(timeout);
+    watcher.close();
+    await mockServer.stop();
+  };
+}
+
+async function reload(mockServer: MockServer, path: string) {
+  let mocks;
+
+  try {
+    mocks = await loadFixtures(path);
+  } catch (error) {
+    console.error(`Failed to reload mocks: ${(error as Error).message}`);
+    return;
+  }
+
+  // the mocks are replaced synchronously, so no request is handled without them
+  mockServer.resetMocks();
+  mocks.forEach(({ matcher, response, options }) =>
+    mockServer.mock(matcher, response, options),
+  );
+
+  console.log(`Reloaded ${mocks.length} mocks from ${path}`);
+}
+
+function formatRequest(req: Request) {
+  return `${req.method} ${req.originalUrl}`;
+}
+
+/* istanbul ignore next */
+if (require.main === module) {
+  cli(process.argv.slice(2)).then(
+    (stop) => {
+      const shutdown = () => stop().then(() => process.exit(0));
+      process.once("SIGINT", shutdown).once("SIGTERM", shutdown);
+    },
+    (error: Error) => {
+      console.error(error.message);
+      process.exit(1);
+    },
+  );
+}
@@ -0,0 +1,160 @@
+import { MockServer } from "./MockServer";
+import { ExpectationMessage, formatMatcher } from "./ExpectationMessage";
+import { resolvePathMatcher, type Matcher } from "./matchRequest";
+// pull the augmented modules into the program, see the `declare module` blocks below
+import type {} from "expect";
+import type {} from "vitest";
+
+/** subset of the context Jest and Vitest call custom matchers with */
+type MatcherContext = { isNot: boolean };
+
+type MatcherResult = { pass: boolean; message: () => string };
+
+/**
+ * custom matchers for `expect(mockServer)` - register them using `expect.extend(matchers)`
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#jest-and-vitest}
+ */
+export interface MockServerMatchers<R = unknown> {
+  /**
+   * Check if the mock server has been called with the given `matcher`.
+   * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#jest-and-vitest}
+   */
+  toHaveReceivedRequest(matcher: string | RegExp | Matcher): R;
+  /**
+   * Check if the mock server has been called a certain number of times with the given `matcher`.
+   * @param {number} times
+   * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#jest-and-vitest}
+   */
+  toHaveReceivedRequestTimes(
+    times: number,
+    matcher: string | RegExp | Matcher,
+  ): R;
+  /**
+   * Check if the `n`th call of the mock server matched the given `matcher`.
+   * @param {number} n - position of the call, starting at `1`
+   * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#jest-and-vitest}
+   */
+  toHaveReceivedNthRequest(n: number, matcher: string | RegExp | Matcher): R;
+  /**
+   * Check if the last call of the mock server matched the given `matcher`.
+   * @param {string | RegExp | Matcher} matcher - If matcher is a `string` or `RegExp`, it will be used to match the request path
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#jest-and-vitest}
+   */
+  toHaveReceivedLastRequest(matcher: string | RegExp | Matcher): R;
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace jest {
+    // type parameters have to match the declaration of @types/jest
+    // eslint-disable-next-line @typescript-eslint/no-empty-object-type, @typescript-eslint/no-unused-vars
+    interface Matchers<R = void, T = {}> extends MockServerMatchers<R> {}
+  }
+}
+
+// `expect` from `@jest/globals`
+declare module "expect" {
+  // type parameters have to match the declaration of expect
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type, @typescript-eslint/no-unused-vars
+  interface Matchers<R extends void | Promise<void>, T = unknown>
+    extends MockServerMatchers<R> {}
+}
+
+declare module "vitest" {
+  // type parameters have to match the declaration of vitest
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+  interface Matchers<
+    R extends void | Promise<void> = void | Promise<void>,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    T = unknown,
+  > extends MockServerMatchers<R> {}
+}
+
+/**
+ * custom matchers for Jest and Vitest - they only accept a `MockServer`
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#jest-and-vitest}
+ * @example
+ * expect.extend(matchers);
+ * expect(mockServer).toHaveReceivedRequest({ path: "/test" });
+ */
+export const matchers = {
+  toHaveReceivedRequest(
+    this: MatcherContext,
+    received: unknown,
+    matcher: string | RegExp | Matcher,
+  ): MatcherResult {
+    const mockServer = toMockServer(received, "toHaveReceivedRequest");
+    const resolved = resolvePathMatcher(matcher);
+
+    return {
+      pass: mockServer.hasBeenCalledWith(resolved),
+      message: () =>
+        this.isNot
+          ? ExpectationMessage.hasNotBeenCalledWith(mockServer, resolved)
+          : ExpectationMessage.hasBeenCalledWith(mockServer, resolved),
+    };
+  },
+
+  toHaveReceivedRequestTimes(
+    this: MatcherContext,
+    received: unknown,
+    times: number,
+    matcher: string | RegExp | Matcher,
+  ): MatcherResult {
+    const mockServer = toMockServer(received, "toHaveReceivedRequestTimes");
+    const resolved = resolvePathMatcher(matcher);
+
+    return {
+      pass: mockServer.hasBeenCalledTimes(times, resolved),
+      message: () =>
+        this.isNot
+          ? `Expected 'mockServer' not to have been called ${times} times with matcher:\n${formatMatcher(resolved)}`
+          : ExpectationMessage.hasBeenCalledTimes(mockServer, times, resolved),
+    };
+  },
+
+  toHaveReceivedNthRequest(
+    this: MatcherContext,
+    received: unknown,
+    n: number,
+    matcher: string | RegExp | Matcher,
+  ): MatcherResult {
+    const mockServer = toMockServer(received, "toHaveReceivedNthRequest");
+    const resolved = resolvePathMatcher(matcher);
+
+    return {
+      pass: mockServer.hasBeenNthCalledWith(n, resolved),
+      message: () =>
+        this.isNot
+          ? `Expected call ${n} of 'mockServer' not to have matched matcher:\n${formatMatcher(resolved)}`
+          : ExpectationMessage.hasBeenNthCalledWith(mockServer, n, resolved),
+    };
+  },
+
+  toHaveReceivedLastRequest(
+    this: MatcherContext,
+    received: unknown,
+    matcher: string | RegExp | Matcher,
+  ): MatcherResult {
+    const mockServer = toMockServer(received, "toHaveReceivedLastRequest");
+    const resolved = resolvePathMatcher(matcher);
+
+    return {
+      pass: mockServer.hasBeenLastCalledWith(resolved),
+      message: () =>
+        this.isNot
+          ? `Expected the last call of 'mockServer' not to have matched matcher:\n${formatMatcher(resolved)}`
+          : ExpectationMessage.hasBeenLastCalledWith(mockServer, resolved),
+    };
+  },
+};
+
+function toMockServer(received: unknown, name: string): MockServer {
+  if (received instanceof MockServer) return received;
+  throw new TypeError(
+    `${name}() expects a MockServer, received ${typeof received}`,
+  );
+}
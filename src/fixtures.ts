@@ -0,0 +1,555 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import YAML from "yaml";
+import {
+  compilePath,
+  isCompositeMatcher,
+  type Matcher,
+  type MatcherObj,
+} from "./matchRequest";
+import { containsAsymmetricMatcher } from "./Match";
+import type { Mock, MockOptions, Response, ResponseObj } from "./MockServer";
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixturematcher} */
+export type FixtureMatcher = Omit<
+  MatcherObj,
+  "path" | "headers" | "host" | "ip"
+> & {
+  /**
+   * path to match against -
+   * Use `{ regexp, flags }` to match against a regular expression
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixturematcher}
+   */
+  path?: string | FixtureRegExp;
+  /**
+   * headers to match against -
+   * Use `{ regexp, flags }` to match against a regular expression
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixturematcher}
+   */
+  headers?: Record<
+    string,
+    string | FixtureRegExp | Array<string | FixtureRegExp>
+  >;
+  /**
+   * host name to match against -
+   * Use `{ regexp, flags }` to match against a regular expression
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixturematcher}
+   */
+  host?: string | FixtureRegExp;
+  /**
+   * client IP address to match against -
+   * Use `{ regexp, flags }` to match against a regular expression
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixturematcher}
+   */
+  ip?: string | FixtureRegExp;
+};
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixturematcher} */
+type FixtureRegExp = { regexp: string; flags?: string };
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixtureresponse} */
+export type FixtureResponse = ResponseObj & {
+  /**
+   * file to read the response body from -
+   * Relative paths are resolved against the directory of the fixture file
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixtureresponse}
+   */
+  bodyFile?: string;
+};
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixturemock} */
+export type FixtureMock = {
+  /**
+   * matcher to match against the request
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixturemock}
+   */
+  matcher: FixtureMatcher;
+  /**
+   * response the server will respond with when matched -
+   * If an array is given, the responses will be served in order
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixturemock}
+   */
+  response:
+    | string
+    | number
+    | FixtureResponse
+    | Array<string | number | FixtureResponse>;
+  /** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixturemock} */
+  options?: MockOptions;
+};
+
+/**
+ * error thrown when a fixture file is invalid
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#fixtureerror}
+ */
+export class FixtureError extends Error {
+  constructor(
+    /** fixture file containing the error */
+    readonly file: string,
+    /** path of the invalid field, e.g. `[0].response.status` */
+    readonly field: string | undefined,
+    reason: string,
+  ) {
+    super(`${file}: ${field ? `"${field}" ` : ""}${reason}`);
+    this.name = "FixtureError";
+  }
+}
+
+type FieldType = "string" | "number" | "boolean" | "object" | "array";
+
+type LoadedMock = Pick<Mock, "matcher" | "response" | "options">;
+
+const extensions = [".json", ".yaml", ".yml"];
+
+export async function loadFixtures(target: string): Promise<LoadedMock[]> {
+  const files = (await stat(target)).isDirectory()
+    ? (await readdir(target, { recursive: true }))
+        .filter((file) => extensions.includes(path.extname(file)))
+        .sort()
+        .map((file) => path.join(target, file))
+    : [target];
+
+  const mocks: LoadedMock[] = [];
+
+  for (const file of files) {
+    mocks.push(...(await loadFixtureFile(file)));
+  }
+
+  return mocks;
+}
+
+export function stringifyFixtures(
+  fixtures: FixtureMock[],
+  file: string,
+): string {
+  return [".yaml", ".yml"].includes(path.extname(file))
+    ? YAML.stringify(fixtures)
+    : `${JSON.stringify(fixtures, null, 2)}\n`;
+}
+
+export function serializeMock(mock: Mock, index: number): FixtureMock {
+  const matcher = serializeMatcher(mock.matcher);
+  const responses = Array.isArray(mock.response)
+    ? mock.response
+    : [mock.response];
+
+  if (!matcher || responses.some((r) => typeof r === "function")) {
+    const unserializable =
+      typeof mock.matcher === "function" ||
+      responses.some((r) => typeof r === "function")
+        ? "functions"
+        : isCompositeMatcher(mock.matcher)
+          ? "composite matchers"
+          : "asymmetric matchers";
+
+    throw new Error(
+      `Cannot export mock at index ${index}: ${unserializable} cannot be serialized`,
+    );
+  }
+
+  const fixture: FixtureMock = {
+    matcher,
+    response: mock.response as ResponseObj | ResponseObj[],
+  };
+
+  if (Object.keys(mock.options).length > 0) fixture.options = mock.options;
+
+  return fixture;
+}
+
+export function serializeMatcher(matcher: Matcher): FixtureMatcher | null {
+  if (
+    typeof matcher === "function" ||
+    isCompositeMatcher(matcher) ||
+    containsAsymmetricMatcher(matcher)
+  ) {
+    return null;
+  }
+
+  const { path: matcherPath, headers, host, ip, ...fixture } = matcher;
+
+  return Object.assign(
+    fixture,
+    matcherPath === undefined ? {} : { path: serializeRegExp(matcherPath) },
+    headers === undefined
+      ? {}
+      : {
+          headers: Object.fromEntries(
+            Object.entries(headers).map(([k, v]) => [
+              k,
+              Array.isArray(v)
+                ? v.map(serializeRegExp)
+                : v && serializeRegExp(v as string | RegExp),
+            ]),
+          ),
+        },
+    host === undefined ? {} : { host: serializeRegExp(host) },
+    ip === undefined ? {} : { ip: serializeRegExp(ip) },
+  );
+}
+
+function serializeRegExp(value: string | RegExp): string | FixtureRegExp {
+  if (!(value instanceof RegExp)) return value;
+  return value.flags
+    ? { regexp: value.source, flags: value.flags }
+    : { regexp: value.source };
+}
+
+/**
+ * Validate fixtures that were not read from a file -
+ * `source` is reported as the file of a {@link FixtureError} and `bodyFile` is not supported
+ */
+export async function parseFixtures(
+  content: unknown,
+  source: string,
+): Promise<LoadedMock[]> {
+  return validateFixtures(content, new FixtureValidator(source, null));
+}
+
+async function loadFixtureFile(file: string): Promise<LoadedMock[]> {
+  let content: unknown;
+
+  try {
+    const source = await readFile(file, "utf-8");
+    content =
+      path.extname(file) === ".json" ? JSON.parse(source) : YAML.parse(source);
+  } catch (error) {
+    throw new FixtureError(file, undefined, (error as Error).message);
+  }
+
+  return validateFixtures(
+    content,
+    new FixtureValidator(file, path.dirname(file)),
+  );
+}
+
+async function validateFixtures(
+  content: unknown,
+  validator: FixtureValidator,
+): Promise<LoadedMock[]> {
+  if (!Array.isArray(content)) {
+    throw new FixtureError(
+      validator.file,
+      undefined,
+      "expected an array of mocks",
+    );
+  }
+
+  const mocks: LoadedMock[] = [];
+
+  for (const [index, fixture] of content.entries()) {
+    mocks.push(await validator.mock(fixture, `[${index}]`));
+  }
+
+  return mocks;
+}
+
+class FixtureValidator {
+  constructor(
+    readonly file: string,
+    private readonly bodyFileDir: string | null,
+  ) {}
+
+  async mock(value: unknown, field: string): Promise<LoadedMock> {
+    const fixture = this.object(value, field, [
+      "matcher",
+      "response",
+      "options",
+    ]);
+
+    this.required(fixture, "matcher", field, "object");
+    this.required(
+      fixture,
+      "response",
+      field,
+      "string",
+      "number",
+      "object",
+      "array",
+    );
+
+    const matcher = this.matcher(fixture.matcher, `${field}.matcher`);
+
+    const responses = Array.isArray(fixture.response)
+      ? await Promise.all(
+          fixture.response.map((response: unknown, i) =>
+            this.response(response, `${field}.response[${i}]`),
+          ),
+        )
+      : await this.response(fixture.response, `${field}.response`);
+
+    if (Array.isArray(responses) && responses.length === 0) {
+      throw new FixtureError(
+        this.file,
+        `${field}.response`,
+        "must contain at least one response",
+      );
+    }
+
+    return {
+      matcher,
+      response: responses,
+      options:
+        fixture.options === undefined
+          ? {}
+          : this.options(fixture.options, `${field}.options`),
+    };
+  }
+
+  matcher(value: unknown, field: string): MatcherObj {
+    const matcher = this.object(value, field, [
+      "method",
+      "path",
+      "query",
+      "headers",
+      "cookies",
+      "host",
+      "protocol",
+      "ip",
+      "body",
+      "bodyMatch",
+      "bodyPath",
+    ]);
+
+    this.optional(matcher, "method", field, "string");
+    this.optional(matcher, "query", field, "object");
+    this.optional(matcher, "headers", field, "object");
+    this.optional(matcher, "cookies", field, "object");
+    this.optional(matcher, "body", field, "string", "object", "array");
+    this.optional(matcher, "bodyPath", field, "object");
+
+    if (matcher.bodyMatch !== undefined) {
+      this.bodyMatch(matcher.bodyMatch, `${field}.bodyMatch`);
+    }
+
+    if (
+      matcher.protocol !== undefined &&
+      !["http", "https"].includes(matcher.protocol as string)
+    ) {
+      throw new FixtureError(
+        this.file,
+        `${field}.protocol`,
+        'expected "http" or "https"',
+      );
+    }
+
+    const result = { ...matcher } as MatcherObj;
+
+    if (matcher.headers !== undefined) {
+      result.headers = Object.fromEntries(
+        Object.entries(matcher.headers as object).map(([k, v]) => [
+          k,
+          Array.isArray(v)
+            ? v.map((value: unknown, i) =>
+                this.stringOrRegExp(value, `${field}.headers.${k}[${i}]`),
+              )
+            : v === undefined
+              ? v
+              : this.stringOrRegExp(v, `${field}.headers.${k}`),
+        ]),
+      );
+    }
+
+    for (const key of ["path", "host", "ip"] as const) {
+      if (matcher[key] !== undefined) {
+        result[key] = this.stringOrRegExp(matcher[key], `${field}.${key}`);
+      }
+    }
+
+    if (typeof result.path === "string") {
+      try {
+        compilePath(result.path);
+      } catch (error) {
+        throw new FixtureError(
+          this.file,
+          `${field}.path`,
+          (error as Error).message,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  stringOrRegExp(value: unknown, field: string): string | RegExp {
+    if (typeof value === "string") return value;
+
+    const regexp = this.object(value, field, ["regexp", "flags"]);
+
+    this.required(regexp, "regexp", field, "string");
+    this.optional(regexp, "flags", field, "string");
+
+    try {
+      return new RegExp(regexp.regexp as string, regexp.flags as string);
+    } catch (error) {
+      throw new FixtureError(
+        this.file,
+        `${field}.regexp`,
+        (error as Error).message,
+      );
+    }
+  }
+
+  bodyMatch(value: unknown, field: string): void {
+    const bodyMatch = this.object(value, field, ["partial", "arrays"]);
+
+    this.optional(bodyMatch, "partial", field, "boolean");
+
+    if (
+      bodyMatch.arrays !== undefined &&
+      !["exact", "prefix", "contains"].includes(bodyMatch.arrays as string)
+    ) {
+      throw new FixtureError(
+        this.file,
+        `${field}.arrays`,
+        'expected "exact", "prefix" or "contains"',
+      );
+    }
+  }
+
+  async response(value: unknown, field: string): Promise<Response> {
+    if (typeof value === "string") return { body: value };
+    if (typeof value === "number") return { status: value };
+
+    const fixture = this.object(value, field, [
+      "status",
+      "headers",
+      "body",
+      "bodyFile",
+      "delay",
+    ]);
+
+    this.optional(fixture, "status", field, "number");
+    this.optional(fixture, "headers", field, "object");
+    this.optional(fixture, "body", field, "string", "object", "array");
+    this.optional(fixture, "bodyFile", field, "string");
+    this.optional(fixture, "delay", field, "number");
+
+    const { bodyFile, ...response } = fixture;
+
+    if (bodyFile === undefined) return response as ResponseObj;
+
+    if (response.body !== undefined) {
+      throw new FixtureError(
+        this.file,
+        `${field}.bodyFile`,
+        "cannot be combined with body",
+      );
+    }
+
+    if (this.bodyFileDir === null) {
+      throw new FixtureError(
+        this.file,
+        `${field}.bodyFile`,
+        "is not supported",
+      );
+    }
+
+    const bodyPath = path.resolve(this.bodyFileDir, bodyFile as string);
+
+    try {
+      return { ...response, body: await readFile(bodyPath, "utf-8") };
+    } catch (error) {
+      throw new FixtureError(
+        this.file,
+        `${field}.bodyFile`,
+        (error as Error).message,
+      );
+    }
+  }
+
+  options(value: unknown, field: string): MockOptions {
+    const options = this.object(value, field, [
+      "overwrite",
+      "priority",
+      "times",
+      "sequenceEnd",
+      "scenario",
+      "requiredState",
+      "newState",
+    ]);
+
+    this.optional(options, "overwrite", field, "boolean");
+    this.optional(options, "priority", field, "number");
+    this.optional(options, "times", field, "number");
+
+    if (
+      options.times !== undefined &&
+      (!Number.isInteger(options.times) || (options.times as number) < 1)
+    ) {
+      throw new FixtureError(
+        this.file,
+        `${field}.times`,
+        "expected a positive integer",
+      );
+    }
+    this.optional(options, "scenario", field, "string");
+    this.optional(options, "requiredState", field, "string");
+    this.optional(options, "newState", field, "string");
+
+    if (
+      options.sequenceEnd !== undefined &&
+      !["repeat", "loop", "fallthrough"].includes(options.sequenceEnd as string)
+    ) {
+      throw new FixtureError(
+        this.file,
+        `${field}.sequenceEnd`,
+        'expected "repeat", "loop" or "fallthrough"',
+      );
+    }
+
+    return options as MockOptions;
+  }
+
+  object(
+    value: unknown,
+    field: string,
+    keys: string[],
+  ): Record<string, unknown> {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new FixtureError(this.file, field, "expected an object");
+    }
+
+    const unknownKey = Object.keys(value).find((key) => !keys.includes(key));
+
+    if (unknownKey) {
+      throw new FixtureError(this.file, `${field}.${unknownKey}`, "is unknown");
+    }
+
+    return value as Record<string, unknown>;
+  }
+
+  required(
+    obj: Record<string, unknown>,
+    key: string,
+    field: string,
+    ...types: FieldType[]
+  ) {
+    if (obj[key] === undefined) {
+      throw new FixtureError(this.file, `${field}.${key}`, "is required");
+    }
+
+    this.optional(obj, key, field, ...types);
+  }
+
+  optional(
+    obj: Record<string, unknown>,
+    key: string,
+    field: string,
+    ...types: FieldType[]
+  ) {
+    const value = obj[key];
+    if (value === undefined) return;
+
+    const type =
+      value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+    if (!types.includes(type as FieldType)) {
+      throw new FixtureError(
+        this.file,
+        `${field}.${key}`,
+        `expected ${types.join(" or ")}`,
+      );
+    }
+  }
+}
@@ -1,4 +1,11 @@
-export type { Matcher, MatcherObj, MatcherFn } from "./matchRequest";
+export { and, or, not } from "./matchRequest";
+export type {
+  Matcher,
+  MatcherObj,
+  MatcherFn,
+  CompositeMatcher,
+  BodyMatchOptions,
+} from "./matchRequest";
 export { MockServer } from "./MockServer";
 export type {
   ResponseObj,
@@ -6,7 +13,22 @@ export type {
   ResponseFn,
   MockOptions,
   Mock,
+  MockHandle,
   Call,
+  UnmatchedCall,
+  MockDefinition,
+  HttpsOptions,
+  ProxyOptions,
   Options,
 } from "./MockServer";
 export { ExpectationMessage } from "./ExpectationMessage";
+export type { ExpectationMessageOptions } from "./ExpectationMessage";
+export { Match } from "./Match";
+export type { AsymmetricMatcher, Matchable } from "./Match";
+export { MockServerClient } from "./MockServerClient";
+export type { MockServerClientOptions } from "./MockServerClient";
+export type { AdminCall } from "./admin";
+export { parseBody } from "./parseBody";
+export type { MultipartFile } from "./parseBody";
+export { FixtureError } from "./fixtures";
+export type { FixtureMock, FixtureMatcher, FixtureResponse } from "./fixtures";
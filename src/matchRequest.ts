@@ -1,12 +1,23 @@
 import type express from "express";
-import deepEqual from "deep-equal";
-import type http from "node:http";
+import { match, type MatchFunction } from "path-to-regexp";
+import {
+  equals,
+  isAsymmetricMatcher,
+  type AsymmetricMatcher,
+  type Matchable,
+} from "./Match";
+import { parseBody } from "./parseBody";
+import { selectBodyPath } from "./bodyPath";
 
 /**
  * request the server was called with
  * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#request}
  */
-export type Request = express.Request<{}, unknown, Buffer | undefined>; // eslint-disable-line  @typescript-eslint/no-empty-object-type
+export type Request = express.Request<
+  Record<string, string>,
+  unknown,
+  Buffer | undefined
+>;
 
 /** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#matcherobj} */
 export type MatcherObj = {
@@ -16,28 +27,94 @@ export type MatcherObj = {
    */
   method?: string;
   /**
-   * path to match against
+   * path to match against -
+   * If a `string` is given it may contain [path parameters]{@link https://github.com/pillarjs/path-to-regexp/tree/v6.3.0#parameters} like `/users/:id` -
+   * `:`, `*` and `(` can be escaped with a backslash to match them literally
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#matcherobj}
    */
   path?: string | RegExp;
   /**
    * query parameters to match against -
-   * Parameters explicitly set to `undefined` will not match when provided
+   * Parameters explicitly set to `undefined` will not match when provided -
+   * Values may be [asymmetric matchers]{@link https://github.com/joshuajaco/mocaron#asymmetric-matchers}
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#matcherobj}
    */
-  query?: Request["query"];
+  query?: { [K in keyof Request["query"]]: Matchable<Request["query"][K]> };
   /**
    * headers to match against -
-   * Headers explicitly set to `undefined` will not match when provided
+   * Headers explicitly set to `undefined` will not match when provided -
+   * Values may be [asymmetric matchers]{@link https://github.com/joshuajaco/mocaron#asymmetric-matchers} or `RegExp`s -
+   * If an array is given, every value must match one of the header values in any order -
+   * `Content-Type` and `Accept` values are compared as media types
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#header-matching}
+   */
+  headers?: Record<
+    string,
+    HeaderValueMatcher | readonly HeaderValueMatcher[] | undefined
+  >;
+  /**
+   * cookies of the `Cookie` header to match against -
+   * Cookies explicitly set to `undefined` will not match when provided -
+   * Values may be [asymmetric matchers]{@link https://github.com/joshuajaco/mocaron#asymmetric-matchers}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#matcherobj}
+   */
+  cookies?: Record<string, Matchable<string> | undefined>;
+  /**
+   * host name (without port) to match against -
+   * If a `string` is given it is compared case-insensitively
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#matcherobj}
+   */
+  host?: string | RegExp;
+  /**
+   * protocol to match against
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#matcherobj}
+   */
+  protocol?: "http" | "https";
+  /**
+   * client IP address to match against -
+   * IPv4-mapped IPv6 addresses (e.g. `::ffff:127.0.0.1`) are matched as IPv4 addresses
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#matcherobj}
    */
-  headers?: http.IncomingHttpHeaders;
+  ip?: string | RegExp;
   /**
    * body to match against -
-   * If an `object` is given it will be compared to the request body parsed as JSON
+   * If an `object` is given it will be compared to the [parsed request body]{@link https://github.com/joshuajaco/mocaron#parsebodyreq-unknown} -
+   * If an [asymmetric matcher]{@link https://github.com/joshuajaco/mocaron#asymmetric-matchers} is given it will be matched against the parsed request body or the raw body if it cannot be parsed
    * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#matcherobj}
    */
   body?: string | object;
+  /**
+   * how the body is compared to the parsed request body (defaults to an exact comparison)
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#bodymatchoptions}
+   */
+  bodyMatch?: BodyMatchOptions;
+  /**
+   * values of the [parsed request body]{@link https://github.com/joshuajaco/mocaron#request-body-formats} to match against -
+   * Keys starting with `$` are JSONPath expressions, all other keys JSON Pointers -
+   * Values may be [asymmetric matchers]{@link https://github.com/joshuajaco/mocaron#asymmetric-matchers}
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#matcherobj}
+   */
+  bodyPath?: Record<string, unknown>;
+};
+
+type HeaderValueMatcher = string | RegExp | AsymmetricMatcher;
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#bodymatchoptions} */
+export type BodyMatchOptions = {
+  /**
+   * only the keys of the matcher body must be present and equal, recursively -
+   * Keys explicitly set to `undefined` will not match when provided
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#bodymatchoptions}
+   */
+  partial?: boolean;
+  /**
+   * how arrays are compared when `partial` is set -
+   * `"exact"` requires the same elements in the same order,
+   * `"prefix"` requires the elements of the matcher at the start of the array,
+   * `"contains"` requires the elements of the matcher anywhere in the array (defaults to `"exact"`)
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#bodymatchoptions}
+   */
+  arrays?: "exact" | "prefix" | "contains";
 };
 
 /**
@@ -47,24 +124,147 @@ export type MatcherObj = {
  */
 export type MatcherFn = (req: Request) => boolean;
 
+/**
+ * matcher combining other matchers - created by [`and()`]{@link https://github.com/joshuajaco/mocaron#andmatchers-compositematcher}, [`or()`]{@link https://github.com/joshuajaco/mocaron#ormatchers-compositematcher} and [`not()`]{@link https://github.com/joshuajaco/mocaron#notmatcher-compositematcher}
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#compositematcher}
+ */
+export type CompositeMatcher =
+  | { and: readonly Matcher[] }
+  | { or: readonly Matcher[] }
+  | { not: Matcher };
+
 /**
  * matcher to match against the request
  * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#matcher}
  */
-export type Matcher = MatcherObj | MatcherFn;
+export type Matcher = MatcherObj | MatcherFn | CompositeMatcher;
+
+/**
+ * Create a matcher matching requests matched by all of the given matchers.
+ * @param {...Matcher} matchers
+ * @returns {CompositeMatcher}
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#andmatchers-compositematcher}
+ * @example
+ * mockServer.mock(and({ path: "/users" }, not({ method: "OPTIONS" })), 200);
+ */
+export function and(...matchers: Matcher[]): CompositeMatcher {
+  return { and: matchers };
+}
+
+/**
+ * Create a matcher matching requests matched by any of the given matchers.
+ * @param {...Matcher} matchers
+ * @returns {CompositeMatcher}
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#ormatchers-compositematcher}
+ * @example
+ * mockServer.mock(or({ path: "/a" }, { path: "/b" }), 200);
+ */
+export function or(...matchers: Matcher[]): CompositeMatcher {
+  return { or: matchers };
+}
+
+/**
+ * Create a matcher matching requests not matched by the given matcher.
+ * @param {Matcher} matcher
+ * @returns {CompositeMatcher}
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#notmatcher-compositematcher}
+ * @example
+ * mockServer.mock(not({ method: "OPTIONS" }), 200);
+ */
+export function not(matcher: Matcher): CompositeMatcher {
+  return { not: matcher };
+}
+
+export function isCompositeMatcher(
+  matcher: Matcher,
+): matcher is CompositeMatcher {
+  return (
+    typeof matcher === "object" &&
+    ("and" in matcher || "or" in matcher || "not" in matcher)
+  );
+}
+
+/** Describe a matcher by its method and path, e.g. `GET /users` */
+export function describeMatcher(matcher: Matcher): string {
+  if (typeof matcher === "function") return "<function>";
+
+  if (isCompositeMatcher(matcher)) {
+    if ("not" in matcher) return `not(${describeMatcher(matcher.not)})`;
+
+    return "and" in matcher
+      ? `and(${matcher.and.map(describeMatcher).join(", ")})`
+      : `or(${matcher.or.map(describeMatcher).join(", ")})`;
+  }
+
+  return `${matcher.method ?? "*"} ${matcher.path ?? "*"}`;
+}
+
+/** Use a `string` or `RegExp` as a matcher for the request path */
+export function resolvePathMatcher(
+  matcher: string | RegExp | Matcher,
+): Matcher {
+  const resolved =
+    typeof matcher === "string" || matcher instanceof RegExp
+      ? { path: matcher }
+      : matcher;
+
+  validatePaths(resolved);
+  return resolved;
+}
+
+/** @throws {Error} if a `string` path of `matcher` is not a valid pattern */
+function validatePaths(matcher: Matcher): void {
+  if (typeof matcher === "function") return;
+
+  if (isCompositeMatcher(matcher)) {
+    if ("not" in matcher) return validatePaths(matcher.not);
+    return ("and" in matcher ? matcher.and : matcher.or).forEach(validatePaths);
+  }
+
+  if (typeof matcher.path === "string") compilePath(matcher.path);
+}
 
 export function matchRequest(matcher: Matcher, req: Request): boolean {
   if (typeof matcher === "function") return matcher(req);
 
+  if (isCompositeMatcher(matcher)) {
+    if ("and" in matcher) return matcher.and.every((m) => matchRequest(m, req));
+    if ("or" in matcher) return matcher.or.some((m) => matchRequest(m, req));
+    return !matchRequest(matcher.not, req);
+  }
+
   return (
     matchMethod(matcher, req) &&
     matchPath(matcher, req) &&
     matchQuery(matcher, req) &&
     matchHeaders(matcher, req) &&
-    matchBody(matcher, req)
+    matchCookies(matcher, req) &&
+    matchHost(matcher, req) &&
+    matchProtocol(matcher, req) &&
+    matchIp(matcher, req) &&
+    matchBody(matcher, req) &&
+    matchBodyPath(matcher, req)
   );
 }
 
+/**
+ * Match `requests` against `matchers` in order, skipping requests that do not match the next matcher -
+ * returns the indices of the requests matched by the matchers that were matched in order
+ */
+export function matchInOrder(
+  matchers: readonly Matcher[],
+  requests: readonly Request[],
+): number[] {
+  const matched: number[] = [];
+
+  requests.forEach((request, i) => {
+    const matcher = matchers[matched.length];
+    if (matcher && matchRequest(matcher, request)) matched.push(i);
+  });
+
+  return matched;
+}
+
 export function matchMethod(matcher: MatcherObj, req: Request) {
   return (
     !matcher.method || matcher.method.toLowerCase() === req.method.toLowerCase()
@@ -72,28 +272,275 @@ export function matchMethod(matcher: MatcherObj, req: Request) {
 }
 
 export function matchPath(matcher: MatcherObj, req: Request) {
-  return (
-    !matcher.path ||
-    (matcher.path instanceof RegExp
-      ? !!req.path.match(matcher.path)
-      : req.path === matcher.path)
+  return !matcher.path || !!matchPathParams(matcher.path, req.path);
+}
+
+/**
+ * Extract the path parameters of a request matched by `matcher` -
+ * parameters of `string` paths and named groups of `RegExp` paths are extracted -
+ * composite matchers extract the parameters of their matching matchers
+ */
+export function extractParams(
+  matcher: Matcher,
+  req: Request,
+): Record<string, string> {
+  if (isCompositeMatcher(matcher)) {
+    if ("not" in matcher) return {};
+
+    const matchers =
+      "and" in matcher
+        ? matcher.and
+        : matcher.or.filter((m) => matchRequest(m, req)).slice(0, 1);
+
+    return Object.assign({}, ...matchers.map((m) => extractParams(m, req)));
+  }
+
+  if (typeof matcher === "function" || !matcher.path) return {};
+  return matchPathParams(matcher.path, req.path) ?? {};
+}
+
+const pathMatchers = new Map<
+  string,
+  MatchFunction<Record<string, unknown>> | null
+>();
+
+/**
+ * Compile a `string` path to a match function -
+ * paths without `:`, `*` or `(` are no patterns and compile to `null`
+ * @throws {Error} if the path is not a valid pattern
+ */
+export function compilePath(
+  path: string,
+): MatchFunction<Record<string, unknown>> | null {
+  const cached = pathMatchers.get(path);
+  if (cached !== undefined) return cached;
+
+  let matchFn: MatchFunction<Record<string, unknown>> | null = null;
+
+  if (/[:*(]/.test(path)) {
+    try {
+      matchFn = match(path, {
+        decode: decodeURIComponent,
+        sensitive: true,
+        strict: true,
+      });
+    } catch (error) {
+      const { message } = error as Error;
+      const index = Number(message.match(/^Unexpected MODIFIER at (\d+)/)?.[1]);
+
+      // express style wildcards are not supported by path-to-regexp v6
+      throw new Error(
+        `Invalid path "${path}": ${
+          path[index] === "*"
+            ? 'use "(.*)" or a repeated parameter like ":path*" instead of a bare "*"'
+            : message
+        }`,
+      );
+    }
+  }
+
+  pathMatchers.set(path, matchFn);
+  return matchFn;
+}
+
+function matchPathParams(
+  path: string | RegExp,
+  reqPath: string,
+): Record<string, string> | null {
+  if (path instanceof RegExp) {
+    const result = reqPath.match(path);
+    if (!result) return null;
+
+    return Object.fromEntries(
+      Object.entries(result.groups ?? {}).filter(
+        (entry): entry is [string, string] => entry[1] !== undefined,
+      ),
+    );
+  }
+
+  // a path always matches itself, even if it contains pattern characters
+  if (reqPath === path) return {};
+
+  const result = compilePath(path)?.(reqPath);
+  if (!result) return null;
+
+  // repeated parameters (e.g. `:path*`) are joined to mirror express' wildcards
+  return Object.fromEntries(
+    Object.entries(result.params).map(([k, v]) => [
+      k,
+      Array.isArray(v) ? v.join("/") : String(v),
+    ]),
   );
 }
 
 export function matchQuery(matcher: MatcherObj, req: Request) {
   if (!matcher.query) return true;
   return Object.entries(matcher.query).every(([k, v]) =>
-    deepEqual(req.query[k], v, { strict: true }),
+    equals(v, req.query[k]),
   );
 }
 
 export function matchHeaders(matcher: MatcherObj, req: Request) {
   if (!matcher.headers) return true;
-  return Object.entries(matcher.headers).every(
-    ([k, v]) => req.headers[k.toLowerCase()] === v,
+  return Object.entries(matcher.headers).every(([k, v]) =>
+    matchHeader(k, v, req.headers[k.toLowerCase()]),
   );
 }
 
+export function matchHeader(
+  name: string,
+  expected: HeaderValueMatcher | readonly HeaderValueMatcher[] | undefined,
+  actual: string | string[] | undefined,
+): boolean {
+  if (expected === undefined) return actual === undefined;
+  if (isAsymmetricMatcher(expected)) return expected.asymmetricMatch(actual);
+  if (actual === undefined) return false;
+
+  const mediaType = ["content-type", "accept"].includes(name.toLowerCase());
+
+  if (isHeaderValueList(expected)) {
+    // repeated headers are joined by a comma unless node keeps them as an array (e.g. `set-cookie`)
+    const values = Array.isArray(actual)
+      ? actual
+      : actual.split(",").map((value) => value.trim());
+
+    return expected.every((e) =>
+      values.some((value) => matchHeaderValue(e, value, mediaType)),
+    );
+  }
+
+  return (Array.isArray(actual) ? actual : [actual]).some((value) =>
+    matchHeaderValue(expected, value, mediaType),
+  );
+}
+
+function isHeaderValueList(
+  value: HeaderValueMatcher | readonly HeaderValueMatcher[],
+): value is readonly HeaderValueMatcher[] {
+  return Array.isArray(value);
+}
+
+function matchHeaderValue(
+  expected: HeaderValueMatcher,
+  actual: string,
+  mediaType: boolean,
+) {
+  if (isAsymmetricMatcher(expected)) return expected.asymmetricMatch(actual);
+  if (expected instanceof RegExp) return testRegExp(expected, actual);
+  if (!mediaType) return expected === actual;
+
+  const expectedType = parseMediaType(expected);
+  const actualType = parseMediaType(actual);
+
+  // parameters of the request that are not part of the matcher are ignored
+  return (
+    expectedType.type === actualType.type &&
+    [...expectedType.parameters].every(
+      ([k, v]) => actualType.parameters.get(k) === v,
+    )
+  );
+}
+
+// types, parameter names and charsets are case-insensitive, see https://www.rfc-editor.org/rfc/rfc9110#section-8.3.1
+function parseMediaType(value: string) {
+  const [type, ...parameters] = value.split(";");
+
+  return {
+    type: type.trim().toLowerCase(),
+    parameters: new Map(
+      parameters.map((parameter) => {
+        const [name, ...rest] = parameter.split("=");
+        const key = name.trim().toLowerCase();
+        const v = rest
+          .join("=")
+          .trim()
+          .replace(/^"(.*)"$/, "$1");
+        return [key, key === "charset" ? v.toLowerCase() : v];
+      }),
+    ),
+  };
+}
+
+export function matchCookies(matcher: MatcherObj, req: Request) {
+  if (!matcher.cookies) return true;
+  const cookies = parseCookies(req);
+  return Object.entries(matcher.cookies).every(([k, v]) =>
+    equals(v, cookies[k]),
+  );
+}
+
+export function matchHost(matcher: MatcherObj, req: Request) {
+  if (!matcher.host) return true;
+
+  if (matcher.host instanceof RegExp) {
+    return testRegExp(matcher.host, req.hostname);
+  }
+
+  return matcher.host.toLowerCase() === req.hostname.toLowerCase();
+}
+
+export function matchProtocol(matcher: MatcherObj, req: Request) {
+  return (
+    !matcher.protocol ||
+    matcher.protocol.toLowerCase() === req.protocol?.toLowerCase()
+  );
+}
+
+export function matchIp(matcher: MatcherObj, req: Request) {
+  if (!matcher.ip) return true;
+
+  const ip = normalizeIp(req.ip);
+  if (ip === undefined) return false;
+
+  return matcher.ip instanceof RegExp
+    ? testRegExp(matcher.ip, ip)
+    : normalizeIp(matcher.ip) === ip;
+}
+
+// `test()` of global and sticky regular expressions continues at their `lastIndex`
+function testRegExp(regexp: RegExp, value: string): boolean {
+  return new RegExp(regexp.source, regexp.flags.replace(/[gy]/g, "")).test(
+    value,
+  );
+}
+
+export function normalizeIp<T extends string | undefined>(ip: T): T {
+  return ip?.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, "") as T;
+}
+
+/**
+ * Parse the `Cookie` header of a request -
+ * values are URI decoded and the first occurrence of a cookie wins
+ */
+export function parseCookies(req: Request): Record<string, string> {
+  const cookies = new Map<string, string>();
+
+  for (const pair of (req.headers.cookie ?? "").split(";")) {
+    const index = pair.indexOf("=");
+    if (index === -1) continue;
+
+    const name = pair.slice(0, index).trim();
+    if (!name || cookies.has(name)) continue;
+
+    const value = pair
+      .slice(index + 1)
+      .trim()
+      .replace(/^"(.*)"$/, "$1");
+
+    cookies.set(name, decodeCookie(value));
+  }
+
+  return Object.fromEntries(cookies);
+}
+
+function decodeCookie(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
 export function matchBody(matcher: MatcherObj, req: Request) {
   if (matcher.body == null) return true;
 
@@ -103,11 +550,23 @@ export function matchBody(matcher: MatcherObj, req: Request) {
     return matcher.body === req.body.toString();
   }
 
-  try {
-    return deepEqual(matcher.body, JSON.parse(req.body.toString()), {
-      strict: true,
-    });
-  } catch {
-    return false;
+  const body = parseBody(req);
+
+  if (typeof body === "string") {
+    return (
+      isAsymmetricMatcher(matcher.body) && matcher.body.asymmetricMatch(body)
+    );
   }
+
+  return equals(matcher.body, body, matcher.bodyMatch);
+}
+
+export function matchBodyPath(matcher: MatcherObj, req: Request) {
+  if (!matcher.bodyPath) return true;
+
+  const body = parseBody(req);
+
+  return Object.entries(matcher.bodyPath).every(([expression, expected]) =>
+    equals(expected, selectBodyPath(expression, body)),
+  );
 }
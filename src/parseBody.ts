@@ -0,0 +1,145 @@
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import type { Request } from "./matchRequest";
+
+/** @see [Documentation]{@link https://github.com/joshuajaco/mocaron#multipartfile} */
+export type MultipartFile = {
+  /**
+   * name of the uploaded file
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#multipartfile}
+   */
+  filename: string;
+  /**
+   * content type of the uploaded file (defaults to `"application/octet-stream"`)
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#multipartfile}
+   */
+  contentType: string;
+  /**
+   * size of the uploaded file in bytes
+   * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#multipartfile}
+   */
+  size: number;
+};
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@",
+  ignoreDeclaration: true,
+  ignorePiTags: true,
+  parseTagValue: false,
+  removeNSPrefix: true,
+});
+
+/**
+ * Parse the body of a request depending on its `Content-Type` header -
+ * `application/x-www-form-urlencoded` and `multipart/form-data` bodies are parsed into an object of fields,
+ * XML bodies into an object of elements and any other body as JSON -
+ * Bodies that cannot be parsed are returned as a `string`
+ * @param {Request} req
+ * @returns {unknown} the parsed body - `undefined` if the request has no body
+ * @see [Documentation]{@link https://github.com/joshuajaco/mocaron#parsebodyreq-unknown}
+ * @example
+ * mockServer.post("/users", (req) => ({ body: parseBody(req) }));
+ */
+export function parseBody(req: Request): unknown {
+  if (!(req.body instanceof Buffer)) return undefined;
+
+  const contentType = req.headers["content-type"] ?? "";
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+
+  if (mimeType === "application/x-www-form-urlencoded") {
+    return parseForm(req.body.toString());
+  }
+
+  if (mimeType === "multipart/form-data") {
+    const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+    const parsed =
+      boundary && parseMultipart(req.body, boundary[1] ?? boundary[2].trim());
+    if (parsed) return parsed;
+  }
+
+  if (
+    ["application/xml", "text/xml"].includes(mimeType) ||
+    mimeType.endsWith("+xml")
+  ) {
+    const xml = req.body.toString();
+    if (XMLValidator.validate(xml) === true) return xmlParser.parse(xml);
+  }
+
+  const body = req.body.toString();
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function parseForm(body: string) {
+  const fields = new Map<string, unknown>();
+  new URLSearchParams(body).forEach((value, key) =>
+    appendField(fields, key, value),
+  );
+  return Object.fromEntries(fields);
+}
+
+function parseMultipart(
+  body: Buffer,
+  boundary: string,
+): Record<string, unknown> | null {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const fields = new Map<string, unknown>();
+
+  let start = body.indexOf(delimiter);
+  if (start === -1) return null;
+
+  while (start !== -1) {
+    start += delimiter.length;
+
+    // the last delimiter is followed by "--"
+    if (body.subarray(start, start + 2).toString() === "--") break;
+
+    const end = body.indexOf(delimiter, start);
+    if (end === -1) break;
+
+    // every part starts and ends with a CRLF
+    const part = body.subarray(start + 2, end - 2);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    const headers = part.subarray(0, headerEnd).toString();
+    const content = part.subarray(headerEnd + 4);
+
+    const name = headers.match(/\bname="([^"]*)"/i)?.[1];
+    const filename = headers.match(/\bfilename="([^"]*)"/i)?.[1];
+    const contentType = headers.match(/^content-type:\s*(.+)$/im)?.[1].trim();
+
+    if (headerEnd !== -1 && name !== undefined) {
+      appendField(
+        fields,
+        name,
+        filename === undefined
+          ? content.toString()
+          : ({
+              filename,
+              contentType: contentType ?? "application/octet-stream",
+              size: content.length,
+            } satisfies MultipartFile),
+      );
+    }
+
+    start = end;
+  }
+
+  return Object.fromEntries(fields);
+}
+
+// repeated fields are collected into an array
+function appendField(
+  fields: Map<string, unknown>,
+  name: string,
+  value: unknown,
+) {
+  const existing = fields.get(name);
+
+  if (existing === undefined) fields.set(name, value);
+  else if (Array.isArray(existing)) existing.push(value);
+  else fields.set(name, [existing, value]);
+}
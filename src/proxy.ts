@@ -0,0 +1,89 @@
+import type { MatcherObj, Request } from "./matchRequest";
+import type { MockDefinition, ResponseObj } from "./MockServer";
+
+// headers that only apply to a single connection or are recomputed when sending the body
+const excludedHeaders = new Set([
+  "connection",
+  "content-encoding",
+  "content-length",
+  "expect",
+  "host",
+  "keep-alive",
+  "transfer-encoding",
+  "upgrade",
+]);
+
+export type ProxyResponse = {
+  status: number;
+  headers: Record<string, string | string[]>;
+  body: Buffer;
+};
+
+export async function proxyRequest(
+  target: string,
+  req: Request,
+): Promise<ProxyResponse> {
+  const headers = new Headers();
+
+  Object.entries(req.headers).forEach(([k, v]) => {
+    if (v === undefined || excludedHeaders.has(k)) return;
+    (Array.isArray(v) ? v : [v]).forEach((value) => headers.append(k, value));
+  });
+
+  const response = await fetch(`${target.replace(/\/$/, "")}${req.url}`, {
+    method: req.method,
+    headers,
+    body: req.body,
+    redirect: "manual",
+  });
+
+  const responseHeaders: ProxyResponse["headers"] = Object.fromEntries(
+    [...response.headers].filter(
+      ([k]) => k !== "set-cookie" && !excludedHeaders.has(k),
+    ),
+  );
+
+  // multiple `Set-Cookie` headers would overwrite each other as object entries
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length > 0) responseHeaders["set-cookie"] = cookies;
+
+  return {
+    status: response.status,
+    headers: responseHeaders,
+    body: Buffer.from(await response.arrayBuffer()),
+  };
+}
+
+export function toMockDefinition(
+  req: Request,
+  response: ProxyResponse,
+): MockDefinition {
+  const matcher: MatcherObj = { method: req.method, path: req.path };
+
+  if (Object.keys(req.query).length > 0) matcher.query = req.query;
+  if (req.body) matcher.body = parseJson(req.body);
+
+  const recorded: ResponseObj = { status: response.status };
+
+  if (Object.keys(response.headers).length > 0) {
+    recorded.headers = response.headers;
+  }
+
+  if (response.body.length > 0) {
+    recorded.body = parseJson(response.body);
+  }
+
+  return { matcher, response: recorded };
+}
+
+// scalar JSON values (e.g. `0` or `null`) are kept as text to be replayed as sent
+function parseJson(body: Buffer): string | object {
+  const text = body.toString();
+
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return typeof parsed === "object" && parsed !== null ? parsed : text;
+  } catch {
+    return text;
+  }
+}
@@ -1,18 +1,15 @@
-import { after, afterEach, before, describe, it } from "node:test";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { getPort } from "get-port-please";
-import { MockServer, ExpectationMessage } from "../src";
+import { MockServer, ExpectationMessage, Match, and, not, or } from "../src";
 
 describe("ExpectationMessage", () => {
-  let port: number;
   let host: string;
   let mockServer: MockServer;
 
   before(async () => {
-    port = await getPort(3000);
-    host = `http://localhost:${port}`;
-    mockServer = new MockServer({ port });
+    mockServer = new MockServer();
     await mockServer.start();
+    host = mockServer.url();
   });
 
   afterEach(() => mockServer.reset());
@@ -56,7 +53,7 @@ describe("ExpectationMessage", () => {
 
       assert.equal(
         ExpectationMessage.hasBeenCalledWith(mockServer, matcher),
-        `Expected 'mockServer' to have been called with matcher:\n{\n  "method": "POST",\n  "path": "/foo",\n  "query": {\n    "foo": "bar"\n  },\n  "headers": {\n    "Authorization": "1"\n  },\n  "body": {\n    "some": "content"\n  }\n}\n\nGET /foo:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "body": Object {\x1B[39m\n\x1B[32m-     "some": "content",\x1B[39m\n\x1B[32m-   },\x1B[39m\n\x1B[31m+   "body": undefined,\x1B[39m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": "1",\x1B[39m\n\x1B[31m+     "Authorization": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[32m-   "method": "POST",\x1B[39m\n\x1B[31m+   "method": "GET",\x1B[39m\n\x1B[2m    "path": "/foo",\x1B[22m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[2m      "foo": "bar",\x1B[22m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m\n\nPOST /bar:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[2m    "body": Object {\x1B[22m\n\x1B[2m      "some": "content",\x1B[22m\n\x1B[2m    },\x1B[22m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": "1",\x1B[39m\n\x1B[31m+     "Authorization": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m    "method": "POST",\x1B[22m\n\x1B[32m-   "path": "/foo",\x1B[39m\n\x1B[31m+   "path": "/bar",\x1B[39m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[32m-     "foo": "bar",\x1B[39m\n\x1B[31m+     "foo": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m\n\nGET /foo:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "body": Object {\x1B[39m\n\x1B[32m-     "some": "content",\x1B[39m\n\x1B[32m-   },\x1B[39m\n\x1B[31m+   "body": undefined,\x1B[39m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": "1",\x1B[39m\n\x1B[31m+     "Authorization": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[32m-   "method": "POST",\x1B[39m\n\x1B[31m+   "method": "GET",\x1B[39m\n\x1B[2m    "path": "/foo",\x1B[22m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[32m-     "foo": "bar",\x1B[39m\n\x1B[31m+     "foo": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m\n\nPATCH /bar:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "body": Object {\x1B[39m\n\x1B[32m-     "some": "content",\x1B[39m\n\x1B[32m-   },\x1B[39m\n\x1B[31m+   "body": "string",\x1B[39m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": "1",\x1B[39m\n\x1B[31m+     "Authorization": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[32m-   "method": "POST",\x1B[39m\n\x1B[32m-   "path": "/foo",\x1B[39m\n\x1B[31m+   "method": "PATCH",\x1B[39m\n\x1B[31m+   "path": "/bar",\x1B[39m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[32m-     "foo": "bar",\x1B[39m\n\x1B[31m+     "foo": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m\n\nGET /bar:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "body": Object {\x1B[39m\n\x1B[32m-     "some": "content",\x1B[39m\n\x1B[32m-   },\x1B[39m\n\x1B[31m+   "body": undefined,\x1B[39m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": "1",\x1B[39m\n\x1B[31m+     "Authorization": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[32m-   "method": "POST",\x1B[39m\n\x1B[32m-   "path": "/foo",\x1B[39m\n\x1B[31m+   "method": "GET",\x1B[39m\n\x1B[31m+   "path": "/bar",\x1B[39m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[32m-     "foo": "bar",\x1B[39m\n\x1B[31m+     "foo": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m\n\nDELETE /bar:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "body": Object {\x1B[39m\n\x1B[32m-     "some": "content",\x1B[39m\n\x1B[32m-   },\x1B[39m\n\x1B[31m+   "body": undefined,\x1B[39m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": "1",\x1B[39m\n\x1B[31m+     "Authorization": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[32m-   "method": "POST",\x1B[39m\n\x1B[32m-   "path": "/foo",\x1B[39m\n\x1B[31m+   "method": "DELETE",\x1B[39m\n\x1B[31m+   "path": "/bar",\x1B[39m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[32m-     "foo": "bar",\x1B[39m\n\x1B[31m+     "foo": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m`,
+        `Expected 'mockServer' to have been called with matcher:\n{\n  "method": "POST",\n  "path": "/foo",\n  "query": {\n    "foo": "bar"\n  },\n  "headers": {\n    "Authorization": "1"\n  },\n  "body": {\n    "some": "content"\n  }\n}\n\nGET /foo:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "body": Object {\x1B[39m\n\x1B[32m-     "some": "content",\x1B[39m\n\x1B[32m-   },\x1B[39m\n\x1B[31m+   "body": undefined,\x1B[39m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": "1",\x1B[39m\n\x1B[31m+     "Authorization": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[32m-   "method": "POST",\x1B[39m\n\x1B[31m+   "method": "GET",\x1B[39m\n\x1B[2m    "path": "/foo",\x1B[22m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[2m      "foo": "bar",\x1B[22m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m\n\nPOST /bar:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[2m    "body": Object {\x1B[22m\n\x1B[2m      "some": "content",\x1B[22m\n\x1B[2m    },\x1B[22m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": "1",\x1B[39m\n\x1B[31m+     "Authorization": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m    "method": "POST",\x1B[22m\n\x1B[32m-   "path": "/foo",\x1B[39m\n\x1B[31m+   "path": "/bar",\x1B[39m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[32m-     "foo": "bar",\x1B[39m\n\x1B[31m+     "foo": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m\n\nGET /foo:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "body": Object {\x1B[39m\n\x1B[32m-     "some": "content",\x1B[39m\n\x1B[32m-   },\x1B[39m\n\x1B[31m+   "body": undefined,\x1B[39m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": "1",\x1B[39m\n\x1B[31m+     "Authorization": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[32m-   "method": "POST",\x1B[39m\n\x1B[31m+   "method": "GET",\x1B[39m\n\x1B[2m    "path": "/foo",\x1B[22m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[32m-     "foo": "bar",\x1B[39m\n\x1B[31m+     "foo": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m\n\nPATCH /bar:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "body": Object {\x1B[39m\n\x1B[32m-     "some": "content",\x1B[39m\n\x1B[32m-   },\x1B[39m\n\x1B[31m+   "body": "string",\x1B[39m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[2m      "Authorization": "1",\x1B[22m\n\x1B[2m    },\x1B[22m\n\x1B[32m-   "method": "POST",\x1B[39m\n\x1B[32m-   "path": "/foo",\x1B[39m\n\x1B[31m+   "method": "PATCH",\x1B[39m\n\x1B[31m+   "path": "/bar",\x1B[39m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[32m-     "foo": "bar",\x1B[39m\n\x1B[31m+     "foo": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m\n\nGET /bar:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "body": Object {\x1B[39m\n\x1B[32m-     "some": "content",\x1B[39m\n\x1B[32m-   },\x1B[39m\n\x1B[31m+   "body": undefined,\x1B[39m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": "1",\x1B[39m\n\x1B[31m+     "Authorization": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[32m-   "method": "POST",\x1B[39m\n\x1B[32m-   "path": "/foo",\x1B[39m\n\x1B[31m+   "method": "GET",\x1B[39m\n\x1B[31m+   "path": "/bar",\x1B[39m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[32m-     "foo": "bar",\x1B[39m\n\x1B[31m+     "foo": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m\n\nDELETE /bar:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "body": Object {\x1B[39m\n\x1B[32m-     "some": "content",\x1B[39m\n\x1B[32m-   },\x1B[39m\n\x1B[31m+   "body": undefined,\x1B[39m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": "1",\x1B[39m\n\x1B[31m+     "Authorization": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[32m-   "method": "POST",\x1B[39m\n\x1B[32m-   "path": "/foo",\x1B[39m\n\x1B[31m+   "method": "DELETE",\x1B[39m\n\x1B[31m+   "path": "/bar",\x1B[39m\n\x1B[2m    "query": Object {\x1B[22m\n\x1B[32m-     "foo": "bar",\x1B[39m\n\x1B[31m+     "foo": undefined,\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[2m  }\x1B[22m`,
       );
 
       assert.equal(
@@ -70,12 +67,182 @@ describe("ExpectationMessage", () => {
       );
     });
 
+    it("formats message with asymmetric matchers", async () => {
+      mockServer.post("/users", 201);
+
+      await fetch(`${host}/users`, {
+        method: "POST",
+        body: JSON.stringify({ id: "1", name: "Bob", roles: ["user"] }),
+      });
+
+      const matcher = {
+        path: "/users",
+        body: {
+          id: Match.any(String),
+          name: Match.stringContaining("J"),
+          roles: Match.arrayContaining(["admin"]),
+        },
+      };
+
+      assert.equal(
+        ExpectationMessage.hasBeenCalledWith(mockServer, matcher),
+        `Expected 'mockServer' to have been called with matcher:\n{\n  "path": "/users",\n  "body": {\n    "id": "Any<String>",\n    "name": "StringContaining \\"J\\"",\n    "roles": "ArrayContaining [\\"admin\\"]"\n  }\n}\n\nPOST /users:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[2m    "body": Object {\x1B[22m\n\x1B[2m      "id": Any<String>,\x1B[22m\n\x1B[32m-     "name": StringContaining "J",\x1B[39m\n\x1B[32m-     "roles": ArrayContaining [\x1B[39m\n\x1B[32m-       "admin",\x1B[39m\n\x1B[31m+     "name": "Bob",\x1B[39m\n\x1B[31m+     "roles": Array [\x1B[39m\n\x1B[31m+       "user",\x1B[39m\n\x1B[2m      ],\x1B[22m\n\x1B[2m    },\x1B[22m\n\x1B[2m    "path": "/users",\x1B[22m\n\x1B[2m  }\x1B[22m`,
+      );
+    });
+
+    it("formats message with partial body matching", async () => {
+      mockServer.post("/users", 201);
+
+      await fetch(`${host}/users`, {
+        method: "POST",
+        body: JSON.stringify({
+          id: 1,
+          user: { name: "Bob", age: 30 },
+          tags: ["a", "c", "b"],
+        }),
+      });
+
+      const matcher = {
+        path: "/users",
+        body: { user: { name: "John" }, tags: ["a", "b"] },
+        bodyMatch: { partial: true, arrays: "prefix" as const },
+      };
+
+      assert.equal(
+        ExpectationMessage.hasBeenCalledWith(mockServer, matcher),
+        `Expected 'mockServer' to have been called with matcher:\n{\n  "path": "/users",\n  "body": {\n    "user": {\n      "name": "John"\n    },\n    "tags": [\n      "a",\n      "b"\n    ]\n  },\n  "bodyMatch": {\n    "partial": true,\n    "arrays": "prefix"\n  }\n}\n\nPOST /users:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[2m    "body": Object {\x1B[22m\n\x1B[2m      "tags": Array [\x1B[22m\n\x1B[2m        "a",\x1B[22m\n\x1B[32m-       "b",\x1B[39m\n\x1B[31m+       "c",\x1B[39m\n\x1B[2m      ],\x1B[22m\n\x1B[2m      "user": Object {\x1B[22m\n\x1B[32m-       "name": "John",\x1B[39m\n\x1B[31m+       "name": "Bob",\x1B[39m\n\x1B[2m      },\x1B[22m\n\x1B[2m    },\x1B[22m\n\x1B[2m    "bodyMatch": Object {\x1B[22m\n\x1B[2m      "arrays": "prefix",\x1B[22m\n\x1B[2m      "partial": true,\x1B[22m\n\x1B[2m    },\x1B[22m\n\x1B[2m    "path": "/users",\x1B[22m\n\x1B[2m  }\x1B[22m`,
+      );
+    });
+
+    it("formats message with body path", async () => {
+      mockServer.post("/orders", 201);
+
+      await fetch(`${host}/orders`, {
+        method: "POST",
+        body: JSON.stringify({
+          order: { id: 1, items: [{ sku: "a" }, { sku: "c" }] },
+        }),
+      });
+
+      const matcher = {
+        path: "/orders",
+        bodyPath: {
+          "/order/id": Match.any(Number),
+          "$.order.items[*].sku": ["a", "b"],
+        },
+      };
+
+      assert.equal(
+        ExpectationMessage.hasBeenCalledWith(mockServer, matcher),
+        `Expected 'mockServer' to have been called with matcher:\n{\n  "path": "/orders",\n  "bodyPath": {\n    "/order/id": "Any<Number>",\n    "$.order.items[*].sku": [\n      "a",\n      "b"\n    ]\n  }\n}\n\nPOST /orders:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[2m    "bodyPath": Object {\x1B[22m\n\x1B[2m      "$.order.items[*].sku": Array [\x1B[22m\n\x1B[2m        "a",\x1B[22m\n\x1B[32m-       "b",\x1B[39m\n\x1B[31m+       "c",\x1B[39m\n\x1B[2m      ],\x1B[22m\n\x1B[2m      "/order/id": Any<Number>,\x1B[22m\n\x1B[2m    },\x1B[22m\n\x1B[2m    "path": "/orders",\x1B[22m\n\x1B[2m  }\x1B[22m`,
+      );
+    });
+
+    it("formats message with cookies and host", async () => {
+      mockServer.get("/tenants", 200);
+
+      await fetch(`${host}/tenants`, {
+        headers: { cookie: "session=xyz; theme=dark" },
+      });
+
+      const matcher = {
+        path: "/tenants",
+        host: "acme.localhost",
+        protocol: "http" as const,
+        cookies: { session: "abc" },
+      };
+
+      assert.equal(
+        ExpectationMessage.hasBeenCalledWith(mockServer, matcher),
+        `Expected 'mockServer' to have been called with matcher:\n{\n  "path": "/tenants",\n  "host": "acme.localhost",\n  "protocol": "http",\n  "cookies": {\n    "session": "abc"\n  }\n}\n\nGET /tenants:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[2m    "cookies": Object {\x1B[22m\n\x1B[32m-     "session": "abc",\x1B[39m\n\x1B[31m+     "session": "xyz",\x1B[39m\n\x1B[2m    },\x1B[22m\n\x1B[32m-   "host": "acme.localhost",\x1B[39m\n\x1B[31m+   "host": "localhost",\x1B[39m\n\x1B[2m    "path": "/tenants",\x1B[22m\n\x1B[2m    "protocol": "http",\x1B[22m\n\x1B[2m  }\x1B[22m`,
+      );
+    });
+
+    it("formats message with regex and media type headers", async () => {
+      mockServer.post("/users", 201);
+
+      await fetch(`${host}/users`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json; charset=utf-8",
+          authorization: "Basic abc",
+        },
+        body: "{}",
+      });
+
+      const matcher = {
+        path: "/users",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: /^Bearer /,
+        },
+      };
+
+      assert.equal(
+        ExpectationMessage.hasBeenCalledWith(mockServer, matcher),
+        `Expected 'mockServer' to have been called with matcher:\n{\n  "path": "/users",\n  "headers": {\n    "Content-Type": "application/json",\n    "Authorization": "/^Bearer /"\n  }\n}\n\nPOST /users:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[2m    "headers": Object {\x1B[22m\n\x1B[32m-     "Authorization": /^Bearer /,\x1B[39m\n\x1B[31m+     "Authorization": "Basic abc",\x1B[39m\n\x1B[2m      "Content-Type": "application/json",\x1B[22m\n\x1B[2m    },\x1B[22m\n\x1B[2m    "path": "/users",\x1B[22m\n\x1B[2m  }\x1B[22m`,
+      );
+    });
+
+    it("formats message with composite matchers", async () => {
+      mockServer.mock(() => true, 200);
+
+      await fetch(`${host}/c`, { method: "OPTIONS" });
+
+      const matcher = and(
+        or({ path: "/a" }, { method: "OPTIONS", path: "/b" }),
+        not({ method: "OPTIONS" }),
+      );
+
+      assert.equal(
+        ExpectationMessage.hasBeenCalledWith(mockServer, matcher),
+        `Expected 'mockServer' to have been called with matcher:\n{\n  "and": [\n    {\n      "or": [\n        {\n          "path": "/a"\n        },\n        {\n          "method": "OPTIONS",\n          "path": "/b"\n        }\n      ]\n    },\n    {\n      "not": {\n        "method": "OPTIONS"\n      }\n    }\n  ]\n}\n\nOPTIONS /c:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[2m    "method": "OPTIONS",\x1B[22m\n\x1B[32m-   "path": "/b",\x1B[39m\n\x1B[31m+   "path": "/c",\x1B[39m\n\x1B[2m  }\x1B[22m\n\nExpected not to match:\n{\n  "method": "OPTIONS"\n}`,
+      );
+    });
+
     it("formats message with function matcher", async () => {
-      const matcher = () => true;
+      mockServer.get("/foo", 200);
+
+      await fetch(`${host}/foo?foo=bar`);
+
+      const matcher = () => false;
 
       assert.equal(
         ExpectationMessage.hasBeenCalledWith(mockServer, matcher),
-        "Expected 'mockServer' to have been called with matcher:\n() => true\n\nNo diff (matcher is a function)",
+        `Expected 'mockServer' to have been called with matcher:\n() => false\n\nGET /foo:\nReceived (matcher is a function):\n{\n  "method": "GET",\n  "path": "/foo",\n  "query": {\n    "foo": "bar"\n  }\n}`,
+      );
+    });
+
+    it("formats message without colors", async () => {
+      mockServer.get("/foo", 200);
+
+      await fetch(`${host}/foo`);
+
+      assert.equal(
+        ExpectationMessage.hasBeenCalledWith(
+          mockServer,
+          { path: "/bar" },
+          { color: false },
+        ),
+        `Expected 'mockServer' to have been called with matcher:\n{\n  "path": "/bar"\n}\n\nGET /foo:\n- Expected\n+ Received\n\n  Object {\n-   "path": "/bar",\n+   "path": "/foo",\n  }`,
+      );
+    });
+
+    it("truncates large bodies", async () => {
+      mockServer.post("/foo", 200);
+
+      await fetch(`${host}/foo`, {
+        method: "POST",
+        body: JSON.stringify({ text: "a".repeat(30) }),
+      });
+
+      assert.equal(
+        ExpectationMessage.hasBeenCalledWith(
+          mockServer,
+          { path: "/foo", body: { text: "b" } },
+          { color: false, maxBodyLength: 10 },
+        ),
+        `Expected 'mockServer' to have been called with matcher:\n{\n  "path": "/foo",\n  "body": {\n    "text": "b"\n  }\n}\n\nPOST /foo:\n- Expected\n+ Received\n\n  Object {\n    "body": Object {\n-     "text": "b",\n+     "text": "aaaaaaaaaa… (20 more characters)",\n    },\n    "path": "/foo",\n  }`,
       );
     });
   });
@@ -107,4 +274,229 @@ describe("ExpectationMessage", () => {
       );
     });
   });
+
+  describe(".hasNotBeenCalledWith", () => {
+    it("formats message", async () => {
+      mockServer.mock(() => true, 200);
+
+      await fetch(`${host}/foo`);
+      await fetch(`${host}/bar`);
+      await fetch(`${host}/foo?foo=bar`);
+
+      assert.equal(
+        ExpectationMessage.hasNotBeenCalledWith(mockServer, { path: "/foo" }),
+        `Expected 'mockServer' not to have been called with matcher:\n{\n  "path": "/foo"\n}\n\nMatching calls:\n  1. GET /foo\n  3. GET /foo`,
+      );
+    });
+  });
+
+  describe(".hasBeenNthCalledWith", () => {
+    it("formats message", async () => {
+      mockServer.mock(() => true, 200);
+
+      await fetch(`${host}/foo`);
+      await fetch(`${host}/bar`);
+
+      assert.equal(
+        ExpectationMessage.hasBeenNthCalledWith(mockServer, 2, {
+          path: "/foo",
+        }),
+        `Expected call 2 of 'mockServer' to have matched matcher:\n{\n  "path": "/foo"\n}\n\nGET /bar:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "path": "/foo",\x1B[39m\n\x1B[31m+   "path": "/bar",\x1B[39m\n\x1B[2m  }\x1B[22m`,
+      );
+    });
+
+    it("formats message with colors", async () => {
+      mockServer.mock(() => true, 200);
+
+      await fetch(`${host}/bar`);
+
+      assert.equal(
+        ExpectationMessage.hasBeenNthCalledWith(
+          mockServer,
+          1,
+          { path: "/foo" },
+          { color: true },
+        ),
+        `Expected call 1 of 'mockServer' to have matched matcher:\n{\n  "path": "/foo"\n}\n\nGET /bar:\n\x1B[32m- Expected\x1B[39m\n\x1B[31m+ Received\x1B[39m\n\n\x1B[2m  Object {\x1B[22m\n\x1B[32m-   "path": "/foo",\x1B[39m\n\x1B[31m+   "path": "/bar",\x1B[39m\n\x1B[2m  }\x1B[22m`,
+      );
+    });
+
+    it("formats message without the nth call", () => {
+      assert.equal(
+        ExpectationMessage.hasBeenNthCalledWith(mockServer, 1, {
+          path: "/foo",
+        }),
+        `Expected call 1 of 'mockServer' to have matched matcher:\n{\n  "path": "/foo"\n}\n\nActual calls: 0`,
+      );
+    });
+  });
+
+  describe(".hasBeenLastCalledWith", () => {
+    it("formats message", async () => {
+      mockServer.mock(() => true, 200);
+
+      await fetch(`${host}/foo`);
+      await fetch(`${host}/bar`);
+
+      assert.equal(
+        ExpectationMessage.hasBeenLastCalledWith(
+          mockServer,
+          { path: "/foo" },
+          { color: false },
+        ),
+        `Expected the last call of 'mockServer' to have matched matcher:\n{\n  "path": "/foo"\n}\n\nGET /bar:\n- Expected\n+ Received\n\n  Object {\n-   "path": "/foo",\n+   "path": "/bar",\n  }`,
+      );
+    });
+
+    it("formats message without calls", () => {
+      assert.equal(
+        ExpectationMessage.hasBeenLastCalledWith(mockServer, { path: "/foo" }),
+        `Expected the last call of 'mockServer' to have matched matcher:\n{\n  "path": "/foo"\n}\n\nActual calls: 0`,
+      );
+    });
+  });
+
+  describe(".hasBeenCalledInOrder", () => {
+    const matchers = [
+      { method: "POST", path: "/orders" },
+      { path: "/orders/1" },
+      (req: { path: string }) => req.path === "/health",
+    ];
+
+    beforeEach(async () => {
+      mockServer.mock(() => true, 200);
+
+      await fetch(`${host}/orders`, { method: "POST" });
+      await fetch(`${host}/health`);
+      await fetch(`${host}/orders/2`);
+    });
+
+    it("formats message", () => {
+      assert.equal(
+        ExpectationMessage.hasBeenCalledInOrder(mockServer, matchers, {
+          color: false,
+        }),
+        `Expected 'mockServer' to have been called in order with matchers:\n  1. {"method":"POST","path":"/orders"}\n  2. {"path":"/orders/1"}\n  3. (req) => req.path === "/health"\n\nActual calls:\n  1. POST /orders (matched 1)\n  2. GET /health\n  3. GET /orders/2\n\nNot called in order:\n  2. {"path":"/orders/1"}\n  3. (req) => req.path === "/health"\n\nClosest call for matcher 2:\nGET /health:\n- Expected\n+ Received\n\n  Object {\n-   "path": "/orders/1",\n+   "path": "/health",\n  }`,
+      );
+    });
+
+    it("formats message in strict mode", () => {
+      assert.equal(
+        ExpectationMessage.hasBeenCalledInOrder(
+          mockServer,
+          matchers.slice(0, 2),
+          { strict: true, color: false },
+        ),
+        `Expected 'mockServer' to have been called in exactly this order with matchers:\n  1. {"method":"POST","path":"/orders"}\n  2. {"path":"/orders/1"}\n\nActual calls:\n  1. POST /orders (matched 1)\n  2. GET /health (expected 2)\n  3. GET /orders/2 (unexpected)\n\nCall 2 did not match matcher 2:\nGET /health:\n- Expected\n+ Received\n\n  Object {\n-   "path": "/orders/1",\n+   "path": "/health",\n  }`,
+      );
+    });
+  });
+
+  describe(".unmatchedCall", () => {
+    it("formats message", async () => {
+      const { warn } = console;
+      console.warn = () => {};
+
+      mockServer
+        .get("/users/:id", 200)
+        .once("/health", 200)
+        .mock({ path: "/checkout" }, 200, {
+          scenario: "checkout",
+          requiredState: "paid",
+        });
+
+      try {
+        await fetch(`${host}/users`);
+        await fetch(`${host}/health`);
+        await fetch(`${host}/health`);
+        await fetch(`${host}/checkout`);
+      } finally {
+        console.warn = warn;
+      }
+
+      const [users, health, checkout] = mockServer.unmatchedCalls();
+
+      assert.equal(
+        ExpectationMessage.unmatchedCall(
+          mockServer,
+          { ...users, closestMocks: users.closestMocks.slice(0, 1) },
+          { color: false },
+        ),
+        `GET /users:\nClosest mock GET /users/:id:\n- Expected\n+ Received\n\n  Object {\n    "method": "GET",\n-   "path": "/users/:id",\n+   "path": "/users",\n  }`,
+      );
+
+      assert.equal(
+        ExpectationMessage.unmatchedCall(mockServer, {
+          ...health,
+          closestMocks: health.closestMocks.slice(0, 1),
+        }),
+        `GET /health:\nClosest mock * /health:\nMatched, but the mock has been exhausted`,
+      );
+
+      assert.equal(
+        ExpectationMessage.unmatchedCall(mockServer, {
+          ...checkout,
+          closestMocks: checkout.closestMocks.slice(0, 1),
+        }),
+        `GET /checkout:\nClosest mock * /checkout:\nMatched, but scenario "checkout" is in state "started" instead of "paid"`,
+      );
+    });
+
+    it("formats message for mocks matching only after the request", async () => {
+      mockServer.get("/health", 200);
+
+      await fetch(`${host}/health`);
+
+      const [{ request }] = mockServer.calls();
+
+      assert.equal(
+        ExpectationMessage.unmatchedCall(mockServer, {
+          request,
+          body: undefined,
+          closestMocks: mockServer.mocks(),
+        }),
+        `GET /health:\nClosest mock GET /health:\nMatched, but the mock was not available when the request was made`,
+      );
+    });
+
+    it("formats message without mocks", async () => {
+      const { warn } = console;
+      console.warn = () => {};
+
+      try {
+        await fetch(`${host}/foo`);
+      } finally {
+        console.warn = warn;
+      }
+
+      assert.equal(
+        ExpectationMessage.unmatchedCall(
+          mockServer,
+          mockServer.unmatchedCalls()[0],
+        ),
+        "GET /foo:\nNo mocks registered",
+      );
+    });
+  });
+
+  describe(".hasNoUnmatchedCalls", () => {
+    it("formats message", async () => {
+      const { warn } = console;
+      console.warn = () => {};
+
+      mockServer.get("/foo", 200);
+
+      try {
+        await fetch(`${host}/bar`);
+        await fetch(`${host}/foo`, { method: "POST" });
+      } finally {
+        console.warn = warn;
+      }
+
+      assert.equal(
+        ExpectationMessage.hasNoUnmatchedCalls(mockServer, { color: false }),
+        `Expected all requests to match a mock, 2 requests did not match:\n\nGET /bar:\nClosest mock GET /foo:\n- Expected\n+ Received\n\n  Object {\n    "method": "GET",\n-   "path": "/foo",\n+   "path": "/bar",\n  }\n\nPOST /foo:\nClosest mock GET /foo:\n- Expected\n+ Received\n\n  Object {\n-   "method": "GET",\n+   "method": "POST",\n    "path": "/foo",\n  }`,
+      );
+    });
+  });
 });
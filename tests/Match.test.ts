@@ -0,0 +1,143 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Match } from "../src";
+import { equals, replaceMatched } from "../src/Match";
+
+describe("Match", () => {
+  it(".any", () => {
+    assert(Match.any(String).asymmetricMatch("foo"));
+    assert(Match.any(Number).asymmetricMatch(1));
+    assert(Match.any(Boolean).asymmetricMatch(false));
+    assert(Match.any(Object).asymmetricMatch([]));
+    assert(Match.any(Array).asymmetricMatch([]));
+    assert(Match.any(Function).asymmetricMatch(() => {}));
+    assert(Match.any(Date).asymmetricMatch(new Date()));
+    assert(!Match.any(String).asymmetricMatch(1));
+    assert(!Match.any(Number).asymmetricMatch("1"));
+    assert(!Match.any(Object).asymmetricMatch(null));
+    assert(!Match.any(Array).asymmetricMatch({}));
+  });
+
+  it(".anything", () => {
+    assert(Match.anything().asymmetricMatch(0));
+    assert(Match.anything().asymmetricMatch(""));
+    assert(!Match.anything().asymmetricMatch(null));
+    assert(!Match.anything().asymmetricMatch(undefined));
+  });
+
+  it(".stringContaining", () => {
+    assert(Match.stringContaining("oba").asymmetricMatch("foobar"));
+    assert(!Match.stringContaining("baz").asymmetricMatch("foobar"));
+    assert(!Match.stringContaining("1").asymmetricMatch(1));
+  });
+
+  it(".stringMatching", () => {
+    assert(Match.stringMatching(/^foo/).asymmetricMatch("foobar"));
+    assert(Match.stringMatching("bar$").asymmetricMatch("foobar"));
+    assert(!Match.stringMatching(/^bar/).asymmetricMatch("foobar"));
+    assert(!Match.stringMatching(/1/).asymmetricMatch(1));
+
+    const global = Match.stringMatching(/foo/g);
+    assert(global.asymmetricMatch("foobar"));
+    assert(global.asymmetricMatch("foobar"));
+  });
+
+  it(".objectContaining", () => {
+    const matcher = Match.objectContaining({
+      foo: "bar",
+      nested: { id: Match.any(Number) },
+    });
+
+    assert(matcher.asymmetricMatch({ foo: "bar", nested: { id: 1 }, baz: 1 }));
+    assert(!matcher.asymmetricMatch({ foo: "bar", nested: { id: "1" } }));
+    assert(!matcher.asymmetricMatch({ foo: "bar", nested: { id: 1, a: 1 } }));
+    assert(!matcher.asymmetricMatch({ foo: "bar" }));
+    assert(!matcher.asymmetricMatch(null));
+  });
+
+  it(".arrayContaining", () => {
+    const matcher = Match.arrayContaining(["b", Match.any(Number)]);
+
+    assert(matcher.asymmetricMatch([1, "a", "b"]));
+    assert(!matcher.asymmetricMatch(["a", "b"]));
+    assert(!matcher.asymmetricMatch("b1"));
+  });
+
+  it(".numberInRange", () => {
+    assert(Match.numberInRange(1, 3).asymmetricMatch(1));
+    assert(Match.numberInRange(1, 3).asymmetricMatch(3));
+    assert(!Match.numberInRange(1, 3).asymmetricMatch(4));
+    assert(!Match.numberInRange(1, 3).asymmetricMatch("2"));
+  });
+
+  it(".satisfies", () => {
+    const isEven = (actual: unknown) => (actual as number) % 2 === 0;
+
+    assert(Match.satisfies(isEven).asymmetricMatch(2));
+    assert(!Match.satisfies(isEven).asymmetricMatch(1));
+    assert(
+      !Match.satisfies(() => {
+        throw new Error();
+      }).asymmetricMatch(1),
+    );
+  });
+
+  it("serializes to a description", () => {
+    assert.equal(
+      JSON.stringify({
+        a: Match.any(String),
+        b: Match.stringContaining("foo"),
+        c: Match.objectContaining({ id: Match.anything() }),
+        d: Match.numberInRange(1, 3),
+        e: Match.satisfies(() => true, "custom"),
+      }),
+      '{"a":"Any<String>","b":"StringContaining \\"foo\\"","c":"ObjectContaining {\\"id\\":\\"Anything\\"}","d":"NumberInRange 1..3","e":"Satisfies<custom>"}',
+    );
+  });
+});
+
+describe("equals", () => {
+  it("compares strictly without asymmetric matchers", () => {
+    assert(equals({ a: [1, { b: "c" }] }, { a: [1, { b: "c" }] }));
+    assert(!equals({ a: 1 }, { a: "1" }));
+    assert(!equals({ a: undefined }, {}));
+  });
+
+  it("matches asymmetric matchers at any depth", () => {
+    const expected = {
+      id: Match.any(String),
+      items: [{ n: Match.anything() }],
+    };
+
+    assert(equals(expected, { id: "1", items: [{ n: 1 }] }));
+    assert(!equals(expected, { id: 1, items: [{ n: 1 }] }));
+    assert(!equals(expected, { id: "1", items: [{ n: 1 }, { n: 2 }] }));
+    assert(!equals(expected, { id: "1", items: [{ n: 1 }], extra: 1 }));
+    assert(!equals(expected, "1"));
+  });
+
+  it("supports asymmetric matchers of other libraries", () => {
+    const matcher = {
+      $$typeof: Symbol.for("jest.asymmetricMatcher"),
+      asymmetricMatch: (actual: unknown) => actual === "foo",
+    };
+
+    assert(equals({ a: matcher }, { a: "foo" }));
+    assert(!equals({ a: matcher }, { a: "bar" }));
+  });
+});
+
+describe("replaceMatched", () => {
+  it("replaces matched values with their matcher", () => {
+    const id = Match.any(String);
+    const name = Match.stringContaining("J");
+
+    assert.deepEqual(
+      replaceMatched(
+        { id, user: { name }, tags: [id] },
+        { id: "1", user: { name: "Bob" }, tags: ["a", "b"], extra: 1 },
+      ),
+      { id, user: { name: "Bob" }, tags: [id, "b"], extra: 1 },
+    );
+  });
+});
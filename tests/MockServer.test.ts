@@ -1,18 +1,21 @@
 import { after, afterEach, before, describe, it } from "node:test";
 import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import https from "node:https";
 import { getPort } from "get-port-please";
-import { MockServer } from "../src";
+import { Match, MockServer, or, parseBody, type MockDefinition } from "../src";
+import { generateCertificate } from "../src/certificate";
 
 describe("MockServer", () => {
-  let port: number;
   let host: string;
   let mockServer: MockServer;
 
   before(async () => {
-    port = await getPort(3000);
-    host = `http://localhost:${port}`;
-    mockServer = new MockServer({ port });
+    mockServer = new MockServer();
     await mockServer.start();
+    host = mockServer.url();
   });
 
   afterEach(() => mockServer.reset());
@@ -76,10 +79,399 @@ describe("MockServer", () => {
       console.warn = warn;
     }
 
-    assert.deepEqual(calls, [["Unmatched", "GET", "/test"]]);
+    assert.equal(calls.length, 2);
+    assert.deepEqual(calls[0], ["Unmatched", "GET", "/test"]);
+    assert.match(calls[1][0], /^GET \/test:\nClosest mock \* \*:\n/);
+  });
+
+  it("records unmatched requests with the closest mocks", async () => {
+    const { warn } = console;
+    console.warn = () => {};
+
+    mockServer.get("/users/:id", 200).post("/users", 201).get("/health", 200);
+
+    try {
+      await fetch(`${host}/users`, { method: "PUT", body: "foo" });
+    } finally {
+      console.warn = warn;
+    }
+
+    const [call] = mockServer.unmatchedCalls();
+    const [users, post, health] = mockServer.mocks();
+
+    assert.equal(mockServer.unmatchedCalls().length, 1);
+    assert.equal(mockServer.calls().length, 0);
+    assert.equal(call.request.method, "PUT");
+    assert.equal(call.body, "foo");
+    assert.deepEqual(call.closestMocks, [post, users, health]);
+
+    mockServer.resetCalls();
+
+    assert.deepEqual(mockServer.unmatchedCalls(), []);
+  });
+
+  it("calls onUnmatched and onAmbiguous", async () => {
+    const calls: unknown[][] = [];
+
+    const mockServer = new MockServer({
+      onUnmatched: (req) => calls.push(["unmatched", req.path]),
+      onAmbiguous: (req, mocks) => calls.push(["ambiguous", req.path, mocks]),
+    });
+
+    mockServer.get("/foo", 200).get("/foo", 201);
+    await mockServer.start();
+
+    try {
+      await fetch(`${mockServer.url()}/foo`);
+      await fetch(`${mockServer.url()}/bar`);
+    } finally {
+      await mockServer.stop();
+    }
+
+    assert.deepEqual(calls, [
+      ["ambiguous", "/foo", mockServer.mocks()],
+      ["unmatched", "/bar"],
+    ]);
+  });
+
+  it("passes the unmatched call to onUnmatched", async () => {
+    const calls: unknown[] = [];
+    const mockServer = new MockServer({
+      onUnmatched: (req, call) => calls.push(call),
+    });
+
+    await mockServer.start();
+
+    try {
+      await fetch(`${mockServer.url()}/foo`);
+    } finally {
+      await mockServer.stop();
+    }
+
+    assert.deepEqual(calls, mockServer.unmatchedCalls());
+  });
+
+  it("rejects when stopping with unmatched requests if failOnUnmatched is set", async () => {
+    const mockServer = new MockServer({
+      failOnUnmatched: true,
+      onUnmatched: () => {},
+    });
+
+    await mockServer.start();
+    await fetch(`${mockServer.url()}/foo`);
+
+    await assert.rejects(mockServer.stop(), {
+      message:
+        "Expected all requests to match a mock, 1 requests did not match:\n\nGET /foo:\nNo mocks registered",
+    });
+  });
+
+  describe("proxy", () => {
+    it("forwards unmatched requests to the proxy target", async () => {
+      const proxy = new MockServer({ proxy: host });
+      await proxy.start();
+
+      mockServer.post("/test", (req) => ({
+        status: 201,
+        headers: { "x-foo": String(req.headers["x-foo"]) },
+        body: { query: req.query, body: req.body?.toString() },
+      }));
+
+      proxy.get("/mocked", "mocked");
+
+      try {
+        const response = await fetch(`${proxy.url()}/test?foo=bar`, {
+          method: "POST",
+          headers: { "X-Foo": "foo" },
+          body: "Hello World",
+        });
+
+        assert.equal(response.status, 201);
+        assert.equal(response.headers.get("x-foo"), "foo");
+        assert.deepEqual(await response.json(), {
+          query: { foo: "bar" },
+          body: "Hello World",
+        });
+
+        const mocked = await fetch(`${proxy.url()}/mocked`);
+        assert.equal(await mocked.text(), "mocked");
+
+        assert.equal(mockServer.calls().length, 1);
+        assert.deepEqual(proxy.recordings(), []);
+      } finally {
+        await proxy.stop();
+      }
+    });
+
+    it("records proxied requests as mock definitions", async () => {
+      const dir = await mkdtemp(path.join(tmpdir(), "mocaron-"));
+      const record = path.join(dir, "recordings.json");
+      const proxy = new MockServer({ proxy: { target: host, record } });
+      await proxy.start();
+
+      mockServer
+        .get("/foo", { body: { foo: "bar" } })
+        .post("/bar", { status: 201, body: "created" })
+        .delete("/bar", 204)
+        .put("/baz", { body: "0" });
+
+      try {
+        await fetch(`${proxy.url()}/foo?foo=bar`);
+
+        await fetch(`${proxy.url()}/bar`, {
+          method: "POST",
+          body: JSON.stringify({ bar: 1 }),
+        });
+
+        await fetch(`${proxy.url()}/bar`, { method: "DELETE" });
+        await fetch(`${proxy.url()}/baz`, { method: "PUT", body: "null" });
+      } finally {
+        await proxy.stop();
+      }
+
+      const expected = [
+        {
+          matcher: { method: "GET", path: "/foo", query: { foo: "bar" } },
+          response: { status: 200, body: { foo: "bar" } },
+        },
+        {
+          matcher: { method: "POST", path: "/bar", body: { bar: 1 } },
+          response: { status: 201, body: "created" },
+        },
+        {
+          matcher: { method: "DELETE", path: "/bar" },
+          response: { status: 204 },
+        },
+        {
+          matcher: { method: "PUT", path: "/baz", body: "null" },
+          response: { status: 200, body: "0" },
+        },
+      ];
+
+      const withoutHeaders = ({ matcher, response }: MockDefinition) => {
+        const { headers, ...rest } = response;
+        assert.equal(typeof headers, "object");
+        return { matcher, response: rest };
+      };
+
+      try {
+        const recordings = proxy.recordings();
+        assert.deepEqual(recordings.map(withoutHeaders), expected);
+
+        assert.equal(
+          recordings[0].response.headers?.["content-type"],
+          "text/html; charset=utf-8",
+        );
+
+        const written = JSON.parse(await readFile(record, "utf-8"));
+        assert.deepEqual(written, recordings);
+
+        const replay = new MockServer();
+        await replay.load(record);
+        await replay.start();
+
+        try {
+          const response = await fetch(`${replay.url()}/baz`, {
+            method: "PUT",
+            body: "null",
+          });
+
+          assert.equal(await response.text(), "0");
+        } finally {
+          await replay.stop();
+        }
+      } finally {
+        await rm(dir, { recursive: true });
+      }
+    });
+
+    it("forwards and records multiple Set-Cookie headers", async () => {
+      const proxy = new MockServer({ proxy: { target: host, record: true } });
+      await proxy.start();
+
+      mockServer.get("/login", { headers: { "Set-Cookie": ["a=1", "b=2"] } });
+
+      try {
+        const response = await fetch(`${proxy.url()}/login`);
+        assert.deepEqual(response.headers.getSetCookie(), ["a=1", "b=2"]);
+      } finally {
+        await proxy.stop();
+      }
+
+      assert.deepEqual(proxy.recordings()[0].response.headers?.["set-cookie"], [
+        "a=1",
+        "b=2",
+      ]);
+    });
+
+    it("keeps the latest recording of repeated requests", async () => {
+      const dir = await mkdtemp(path.join(tmpdir(), "mocaron-"));
+      const record = path.join(dir, "recordings.json");
+      const proxy = new MockServer({ proxy: { target: host, record } });
+      await proxy.start();
+
+      mockServer.get("/foo", ["first", "second"]);
+
+      try {
+        await fetch(`${proxy.url()}/foo`);
+        await fetch(`${proxy.url()}/foo`);
+      } finally {
+        await proxy.stop();
+      }
+
+      const replay = new MockServer();
+
+      try {
+        assert.deepEqual(
+          proxy.recordings().map(({ response }) => response.body),
+          ["second"],
+        );
+
+        await replay.load(record);
+        await replay.start();
+
+        const response = await fetch(`${replay.url()}/foo`);
+        assert.equal(await response.text(), "second");
+      } finally {
+        await replay.stop();
+        await rm(dir, { recursive: true });
+      }
+    });
+
+    it("responds with 502 when the proxy target is unreachable", async () => {
+      const { warn } = console;
+      const calls: unknown[][] = [];
+      console.warn = (...args) => calls.push(args);
+
+      const target = new MockServer();
+      await target.start();
+      await target.stop();
+
+      const proxy = new MockServer({ proxy: target.url() });
+      await proxy.start();
+
+      try {
+        const response = await fetch(`${proxy.url()}/test`);
+        assert.equal(response.status, 502);
+      } finally {
+        console.warn = warn;
+        await proxy.stop();
+      }
+
+      assert.deepEqual(calls[0].slice(0, 3), ["Proxy error", "GET", "/test"]);
+    });
+  });
+
+  describe("https", () => {
+    function get(url: string, ca: string | null) {
+      return new Promise<string>((resolve, reject) =>
+        https
+          .get(url, { ca: ca ?? undefined }, (res) => {
+            const chunks: Buffer[] = [];
+            res.on("data", (chunk) => chunks.push(chunk));
+            res.on("end", () => resolve(Buffer.concat(chunks).toString()));
+          })
+          .on("error", reject),
+      );
+    }
+
+    it("serves over https with a generated certificate", async () => {
+      const mockServer = new MockServer({ https: true });
+      mockServer.get("/test", "Hello World");
+
+      assert.equal(mockServer.certificate(), null);
+
+      await mockServer.start();
+
+      try {
+        const certificate = mockServer.certificate();
+
+        assert.match(mockServer.url(), /^https:\/\/localhost:\d+$/);
+        assert.match(certificate!, /^-----BEGIN CERTIFICATE-----/);
+        assert.equal(
+          await get(`${mockServer.url()}/test`, certificate),
+          "Hello World",
+        );
+
+        await assert.rejects(get(`${mockServer.url()}/test`, null), {
+          code: "DEPTH_ZERO_SELF_SIGNED_CERT",
+        });
+
+        await mockServer.stop();
+        await mockServer.start();
+
+        assert.equal(mockServer.certificate(), certificate);
+      } finally {
+        await mockServer.stop();
+      }
+    });
+
+    it("serves over https with the given certificate", async () => {
+      const { key, cert } = await generateCertificate();
+      const mockServer = new MockServer({
+        https: { key, cert: Buffer.from(cert) },
+      });
+      mockServer.get("/test", "Hello World");
+      await mockServer.start();
+
+      try {
+        assert.equal(mockServer.certificate(), cert);
+        assert.equal(
+          await get(`${mockServer.url()}/test`, cert),
+          "Hello World",
+        );
+      } finally {
+        await mockServer.stop();
+      }
+    });
   });
 
   describe("#start", () => {
+    it("resolves with the bound address", async () => {
+      const mockServer = new MockServer({ port: 0 });
+
+      try {
+        const address = await mockServer.start();
+        assert.notEqual(address.port, 0);
+        assert.equal(address.port, mockServer.port());
+      } finally {
+        await mockServer.stop();
+      }
+    });
+
+    it("listens on the configured port", async () => {
+      const port = await getPort(3000);
+      const mockServer = new MockServer({ port });
+
+      try {
+        const address = await mockServer.start();
+        assert.equal(address.port, port);
+      } finally {
+        await mockServer.stop();
+      }
+    });
+
+    it("rejects when the port is already in use", async () => {
+      const other = new MockServer({ port: mockServer.port() });
+      await assert.rejects(other.start(), { code: "EADDRINUSE" });
+    });
+
+    it("can be restarted after being stopped", async () => {
+      const mockServer = new MockServer();
+
+      await mockServer.start();
+      await mockServer.stop();
+      await mockServer.start();
+
+      try {
+        mockServer.get("/test", "Hello World");
+        const response = await fetch(`${mockServer.url()}/test`);
+        assert.equal(await response.text(), "Hello World");
+      } finally {
+        await mockServer.stop();
+      }
+    });
+
     it("does nothing when server is already running", async () => {
       const { warn } = console;
       const calls: string[][] = [];
@@ -101,8 +493,7 @@ describe("MockServer", () => {
       const calls: string[][] = [];
       console.warn = (...args) => calls.push(args);
 
-      const port = await getPort(3001);
-      const mockServer = new MockServer({ port });
+      const mockServer = new MockServer();
 
       try {
         await mockServer.stop();
@@ -115,8 +506,31 @@ describe("MockServer", () => {
   });
 
   describe("#port", () => {
-    it("returns port", () => {
-      assert.equal(mockServer.port(), port);
+    it("returns the port the server is bound to", () => {
+      assert.notEqual(mockServer.port(), 0);
+      assert.equal(host, `http://localhost:${mockServer.port()}`);
+    });
+
+    it("returns the configured port when server is not running", () => {
+      assert.equal(new MockServer({ port: 3000 }).port(), 3000);
+      assert.equal(new MockServer().port(), 0);
+    });
+  });
+
+  describe("#url", () => {
+    it("returns the url the server is running on", () => {
+      assert.equal(mockServer.url(), `http://localhost:${mockServer.port()}`);
+    });
+
+    it("uses the https scheme when https is enabled", () => {
+      const mockServer = new MockServer({ https: true, port: 3000 });
+      assert.equal(mockServer.url(), "https://localhost:3000");
+    });
+  });
+
+  describe("#certificate", () => {
+    it("returns null when https is disabled", () => {
+      assert.equal(mockServer.certificate(), null);
     });
   });
 
@@ -148,6 +562,12 @@ describe("MockServer", () => {
         ["Ambiguous", "GET", "/test"],
         ["use overwrite: true"],
       ]);
+
+      const [first, second] = mockServer.mocks();
+
+      assert.equal(mockServer.calls()[0].ambiguous, true);
+      assert.deepEqual(mockServer.mockCalls(second), []);
+      assert.deepEqual(mockServer.uncalledMocks(), [first, second]);
     });
 
     it("allows overwriting previous mocks", async () => {
@@ -160,6 +580,385 @@ describe("MockServer", () => {
 
       assert.equal(text, "World Hello");
     });
+
+    it("prefers mocks with a higher priority", async () => {
+      mockServer
+        .mock("/api/users", "specific")
+        .mock(/^\/api\//, 500, { priority: -1 })
+        .mock("/api/users/1", "first", { priority: 1 })
+        .mock("/api/users/1", "second", { priority: 1, overwrite: true });
+
+      const users = await fetch(`${host}/api/users`);
+      assert.equal(await users.text(), "specific");
+
+      const user = await fetch(`${host}/api/users/1`);
+      assert.equal(await user.text(), "second");
+
+      const other = await fetch(`${host}/api/other`);
+      assert.equal(other.status, 500);
+    });
+
+    it("only reports ambiguous mocks with the same priority", async () => {
+      const calls: unknown[] = [];
+      const server = new MockServer({
+        onAmbiguous: (req, mocks) => calls.push(mocks),
+      });
+
+      server
+        .mock("/test", "low", { priority: -1 })
+        .mock("/test", "a", { priority: 2 })
+        .mock("/test", "b", { priority: 2 });
+
+      await server.start();
+
+      try {
+        const response = await fetch(`${server.url()}/test`);
+        assert.equal(response.status, 404);
+      } finally {
+        await server.stop();
+      }
+
+      assert.deepEqual(calls, [server.mocks().slice(1)]);
+    });
+
+    it("responds the given number of times", async () => {
+      mockServer
+        .mock("/test", "Hello World")
+        .mock("/test", 503, { times: 2 })
+        .mock("/test", 500, { times: 1 });
+
+      const statuses = [];
+
+      for (let i = 0; i < 4; i++) {
+        const response = await fetch(`${host}/test`);
+        statuses.push(response.status);
+      }
+
+      assert.deepEqual(statuses, [503, 503, 500, 200]);
+    });
+
+    it("responds with a sequence of responses", async () => {
+      mockServer.mock("/test", ["pending", { body: "pending" }, "done"]);
+
+      const bodies = [];
+
+      for (let i = 0; i < 4; i++) {
+        const response = await fetch(`${host}/test`);
+        bodies.push(await response.text());
+      }
+
+      assert.deepEqual(bodies, ["pending", "pending", "done", "done"]);
+    });
+
+    it("loops a sequence of responses", async () => {
+      mockServer.mock("/test", [200, 202], { sequenceEnd: "loop" });
+
+      const statuses = [];
+
+      for (let i = 0; i < 5; i++) {
+        const response = await fetch(`${host}/test`);
+        statuses.push(response.status);
+      }
+
+      assert.deepEqual(statuses, [200, 202, 200, 202, 200]);
+    });
+
+    it("falls through after a sequence of responses", async () => {
+      mockServer
+        .mock("/test", 204)
+        .mock("/test", [() => ({ status: 500 }), 503], {
+          sequenceEnd: "fallthrough",
+        });
+
+      const statuses = [];
+
+      for (let i = 0; i < 4; i++) {
+        const response = await fetch(`${host}/test`);
+        statuses.push(response.status);
+      }
+
+      assert.deepEqual(statuses, [500, 503, 204, 204]);
+    });
+
+    it("throws for invalid path patterns", () => {
+      assert.throws(() => mockServer.get("/a(", 200), {
+        message: 'Invalid path "/a(": Unbalanced pattern at 2',
+      });
+
+      assert.throws(() => mockServer.hasBeenCalledWith("/files/*"), {
+        message:
+          'Invalid path "/files/*": use "(.*)" or a repeated parameter like ":path*" instead of a bare "*"',
+      });
+    });
+
+    it("responds with 500 if handling a request throws", async () => {
+      mockServer.mock(() => {
+        throw new Error("matcher failed");
+      }, 200);
+
+      const { error } = console;
+      const calls: unknown[][] = [];
+      console.error = (...args) => calls.push(args);
+
+      try {
+        const response = await fetch(`${host}/test`);
+        assert.equal(response.status, 500);
+      } finally {
+        console.error = error;
+      }
+
+      assert.match(String(calls[0][0]), /matcher failed/);
+    });
+
+    it("throws for an empty sequence of responses", () => {
+      assert.throws(() => mockServer.mock("/test", []), {
+        message: "Response sequence must contain at least one response",
+      });
+    });
+
+    it("removes and updates mocks using handles", async () => {
+      const users = mockServer.add("/users", "users");
+      mockServer.get("/posts", "posts");
+
+      const first = await fetch(`${host}/users`);
+      assert.equal(await first.text(), "users");
+
+      users.update([503, "recovered"]);
+
+      const down = await fetch(`${host}/users`);
+      assert.equal(down.status, 503);
+
+      const recovered = await fetch(`${host}/users`);
+      assert.equal(await recovered.text(), "recovered");
+
+      users.remove();
+
+      const removed = await fetch(`${host}/users`);
+      assert.equal(removed.status, 404);
+
+      const posts = await fetch(`${host}/posts`);
+      assert.equal(await posts.text(), "posts");
+
+      assert.equal(mockServer.mocks().length, 1);
+      assert.equal(users.countCalls(), 3);
+      assert.deepEqual(
+        users.calls().map(({ mock, index }) => [mock, index]),
+        [
+          [users.mock, 0],
+          [users.mock, 0],
+          [users.mock, 1],
+        ],
+      );
+
+      assert.throws(() => users.update(200), {
+        message: "Cannot update a removed mock",
+      });
+    });
+
+    it("tracks the calls of every mock", async () => {
+      mockServer
+        .get("/users", 200)
+        .post("/users", 201)
+        .mock(or({ path: "/a" }, { method: "PUT", path: /^\/b/ }), 204);
+
+      await fetch(`${host}/users`);
+      await fetch(`${host}/users`);
+
+      const [get, post, composite] = mockServer.mocks();
+
+      assert.equal(mockServer.mockCalls(get).length, 2);
+      assert.deepEqual(mockServer.mockCalls(post), []);
+      assert.deepEqual(mockServer.uncalledMocks(), [post, composite]);
+
+      assert.throws(() => mockServer.assertAllMocksCalled(), {
+        message: [
+          "Expected all mocks to have been called, 2 mocks have not been called:",
+          "  - POST /users",
+          "  - or(* /a, PUT /^\\/b/)",
+        ].join("\n"),
+      });
+
+      await fetch(`${host}/users`, { method: "POST" });
+
+      assert.throws(() => mockServer.assertAllMocksCalled(), {
+        message: [
+          "Expected all mocks to have been called, 1 mock has not been called:",
+          "  - or(* /a, PUT /^\\/b/)",
+        ].join("\n"),
+      });
+
+      await fetch(`${host}/a`);
+
+      assert.doesNotThrow(() => mockServer.assertAllMocksCalled());
+    });
+
+    it("checks the order of calls", async () => {
+      mockServer.mock(() => true, 200);
+
+      await fetch(`${host}/orders`, { method: "POST" });
+      await fetch(`${host}/health`);
+      await fetch(`${host}/orders/1`);
+
+      const post = { method: "POST", path: "/orders" };
+
+      assert(mockServer.hasBeenCalledInOrder([post, "/orders/1"]));
+      assert(mockServer.hasBeenCalledInOrder([post, /health/, "/orders/1"]));
+      assert(!mockServer.hasBeenCalledInOrder(["/orders/1", post]));
+      assert(!mockServer.hasBeenCalledInOrder([post, post]));
+
+      assert(
+        mockServer.hasBeenCalledInOrder([post, "/health", "/orders/1"], {
+          strict: true,
+        }),
+      );
+      assert(
+        !mockServer.hasBeenCalledInOrder([post, "/orders/1"], { strict: true }),
+      );
+      assert(!mockServer.hasBeenCalledInOrder([post], { strict: true }));
+    });
+
+    it("passes path parameters to response functions", async () => {
+      mockServer.get("/users/:id", (req) => ({ body: { id: req.params.id } }));
+
+      const response = await fetch(`${host}/users/1`);
+
+      assert.deepEqual(await response.json(), { id: "1" });
+      assert.deepEqual(mockServer.calls()[0].params, { id: "1" });
+    });
+
+    it("matches form bodies and records the parsed body", async () => {
+      mockServer.post({ path: "/login", body: { user: "john" } }, (req) => ({
+        body: parseBody(req) as object,
+      }));
+
+      const response = await fetch(`${host}/login`, {
+        method: "POST",
+        body: new URLSearchParams({ user: "john" }),
+      });
+
+      assert.deepEqual(await response.json(), { user: "john" });
+      assert.deepEqual(mockServer.calls()[0].body, { user: "john" });
+    });
+
+    it("matches headers by global regular expressions on every request", async () => {
+      mockServer.get({ path: "/test", headers: { accept: /json/g } }, 200);
+
+      const statuses = [];
+
+      for (let i = 0; i < 2; i++) {
+        const response = await fetch(`${host}/test`, {
+          headers: { accept: "application/json" },
+        });
+        statuses.push(response.status);
+      }
+
+      assert.deepEqual(statuses, [200, 200]);
+    });
+
+    it("matches by cookies, host, protocol and ip", async () => {
+      mockServer.get(
+        {
+          path: "/me",
+          cookies: { session: "abc" },
+          host: "localhost",
+          protocol: "http",
+          ip: "127.0.0.1",
+        },
+        200,
+      );
+
+      const matched = await fetch(`${host}/me`, {
+        headers: { cookie: "session=abc" },
+      });
+      assert.equal(matched.status, 200);
+
+      const unmatched = await fetch(`${host}/me`);
+      assert.equal(unmatched.status, 404);
+    });
+
+    it("matches host and ip by global regular expressions on every request", async () => {
+      mockServer.get({ path: "/test", host: /localhost/g, ip: /127/g }, 200);
+
+      const statuses = [];
+
+      for (let i = 0; i < 2; i++) {
+        const response = await fetch(`${host}/test`);
+        statuses.push(response.status);
+      }
+
+      assert.deepEqual(statuses, [200, 200]);
+    });
+
+    it("matches mocks by scenario state", async () => {
+      const scenario = "checkout";
+
+      mockServer
+        .get("/cart", { body: "empty" }, { scenario, requiredState: "started" })
+        .post("/cart", 201, { scenario, newState: "filled" })
+        .get(
+          "/cart",
+          { body: "filled" },
+          { scenario, requiredState: "filled" },
+        );
+
+      const first = await fetch(`${host}/cart`);
+      assert.equal(await first.text(), "empty");
+
+      await fetch(`${host}/cart`, { method: "POST" });
+      assert.equal(mockServer.scenarioState(scenario), "filled");
+
+      const second = await fetch(`${host}/cart`);
+      assert.equal(await second.text(), "filled");
+    });
+
+    it("does not reset the number of times a mock responded when resetting calls", async () => {
+      const { warn } = console;
+      console.warn = () => {};
+
+      mockServer.mock("/test", 204, { times: 1 });
+
+      try {
+        await fetch(`${host}/test`);
+        mockServer.resetCalls();
+
+        const response = await fetch(`${host}/test`);
+        assert.equal(response.status, 404);
+      } finally {
+        console.warn = warn;
+      }
+    });
+  });
+
+  describe("#once", () => {
+    it("responds only once", async () => {
+      const { warn } = console;
+      console.warn = () => {};
+
+      mockServer.once("/test", "Hello World");
+
+      try {
+        const first = await fetch(`${host}/test`);
+        assert.equal(await first.text(), "Hello World");
+
+        const second = await fetch(`${host}/test`);
+        assert.equal(second.status, 404);
+      } finally {
+        console.warn = warn;
+      }
+    });
+
+    it("falls through to the next matching mock", async () => {
+      mockServer.once("/test", 503).get("/test", 200);
+
+      const first = await fetch(`${host}/test`);
+      assert.equal(first.status, 503);
+
+      const second = await fetch(`${host}/test`);
+      assert.equal(second.status, 200);
+
+      const third = await fetch(`${host}/test`);
+      assert.equal(third.status, 200);
+    });
   });
 
   describe("#get", () => {
@@ -236,6 +1035,108 @@ describe("MockServer", () => {
     });
   });
 
+  describe("#load", () => {
+    it("registers mocks from fixture files", async () => {
+      const dir = await mkdtemp(path.join(tmpdir(), "mocaron-"));
+
+      try {
+        await writeFile(
+          path.join(dir, "mocks.json"),
+          JSON.stringify([
+            { matcher: { method: "GET", path: "/foo" }, response: "foo" },
+            {
+              matcher: { path: { regexp: "^/bar/\\d+$" } },
+              response: { status: 201, body: { bar: 1 } },
+            },
+          ]),
+        );
+
+        assert.equal(await mockServer.load(dir), mockServer);
+      } finally {
+        await rm(dir, { recursive: true });
+      }
+
+      const foo = await fetch(`${host}/foo`);
+      assert.equal(await foo.text(), "foo");
+
+      const bar = await fetch(`${host}/bar/1`);
+      assert.equal(bar.status, 201);
+      assert.deepEqual(await bar.json(), { bar: 1 });
+    });
+  });
+
+  describe("#export", () => {
+    it("exports all registered mocks as fixtures", () => {
+      mockServer
+        .get(/^\/foo$/i, "foo")
+        .post("/bar", [201, 409], { sequenceEnd: "loop" });
+
+      assert.deepEqual(mockServer.export(), [
+        {
+          matcher: { method: "GET", path: { regexp: "^\\/foo$", flags: "i" } },
+          response: { body: "foo" },
+        },
+        {
+          matcher: { method: "POST", path: "/bar" },
+          response: [{ status: 201 }, { status: 409 }],
+          options: { sequenceEnd: "loop" },
+        },
+      ]);
+    });
+
+    it("throws for function matchers and responses", () => {
+      mockServer.get("/foo", 200).get("/bar", () => ({ status: 200 }));
+
+      assert.throws(() => mockServer.export(), {
+        message:
+          "Cannot export mock at index 1: functions cannot be serialized",
+      });
+    });
+
+    it("throws for asymmetric matchers", () => {
+      mockServer.get({ path: "/foo", query: { id: Match.anything() } }, 200);
+
+      assert.throws(() => mockServer.export(), {
+        message:
+          "Cannot export mock at index 0: asymmetric matchers cannot be serialized",
+      });
+    });
+
+    it("throws for composite matchers", () => {
+      mockServer.mock(or({ path: "/foo" }, { path: "/bar" }), 200);
+
+      assert.throws(() => mockServer.export(), {
+        message:
+          "Cannot export mock at index 0: composite matchers cannot be serialized",
+      });
+    });
+  });
+
+  describe("#save", () => {
+    it("writes all registered mocks to a fixture file", async () => {
+      const dir = await mkdtemp(path.join(tmpdir(), "mocaron-"));
+      const other = new MockServer();
+
+      mockServer.get(/^\/foo$/, "foo").mock("/bar", 204, { times: 1 });
+
+      try {
+        for (const file of ["mocks.json", "mocks.yaml"]) {
+          await mockServer.save(path.join(dir, file));
+          await other.load(path.join(dir, file));
+          assert.deepEqual(other.mocks(), mockServer.mocks());
+          other.resetMocks();
+        }
+
+        assert.match(
+          await readFile(path.join(dir, "mocks.yaml"), "utf-8"),
+          /^- matcher:\n {4}method: GET\n/,
+        );
+      } finally {
+        await rm(dir, { recursive: true });
+      }
+    });
+  });
+
   describe("#mocks", () => {
     it("returns all registered mocks", async () => {
       mockServer
@@ -301,6 +1202,73 @@ describe("MockServer", () => {
       assert.equal(mockServer.calls()[1].request.method, "POST");
       assert.equal(mockServer.calls()[1].request.path, "/test");
     });
+
+    it("records how many times the matched mock had been called", async () => {
+      mockServer.get("/foo", ["foo", "bar"]).get("/bar", 200);
+
+      await fetch(`${host}/foo`);
+      await fetch(`${host}/bar`);
+      await fetch(`${host}/foo`);
+
+      assert.deepEqual(
+        mockServer.calls().map(({ index }) => index),
+        [0, 0, 1],
+      );
+    });
+  });
+
+  describe("#scenarioState", () => {
+    it("returns the started state for unknown scenarios", () => {
+      assert.equal(mockServer.scenarioState("unknown"), "started");
+    });
+  });
+
+  describe("#setScenarioState", () => {
+    it("sets the state of a scenario", async () => {
+      mockServer.get("/test", 204, {
+        scenario: "test",
+        requiredState: "ready",
+      });
+
+      mockServer.setScenarioState("test", "ready");
+
+      const response = await fetch(`${host}/test`);
+      assert.equal(response.status, 204);
+      assert.equal(mockServer.scenarioState("test"), "ready");
+    });
+  });
+
+  describe("#resetScenarios", () => {
+    it("resets all scenarios", () => {
+      mockServer.setScenarioState("foo", "bar");
+      mockServer.resetScenarios();
+      assert.equal(mockServer.scenarioState("foo"), "started");
+    });
+  });
+
+  describe("#verify", () => {
+    it("throws if a request did not match any mock", async () => {
+      const { warn } = console;
+      console.warn = () => {};
+
+      mockServer.get("/foo", 200);
+
+      assert.doesNotThrow(() => mockServer.verify());
+
+      try {
+        await fetch(`${host}/foo`);
+        assert.doesNotThrow(() => mockServer.verify());
+
+        await fetch(`${host}/bar`);
+      } finally {
+        console.warn = warn;
+      }
+
+      assert.throws(() => mockServer.verify(), {
+        message:
+          /^Expected all requests to match a mock, 1 requests did not match:\n\nGET \/bar:\nClosest mock GET \/foo:\n/,
+      });
+    });
   });
 
   describe("#hasBeenCalledWith", () => {
@@ -348,4 +1316,104 @@ describe("MockServer", () => {
       assert(mockServer.hasBeenCalledTimes(1, { method: "GET", path: "/bar" }));
     });
   });
+
+  describe("#hasBeenNthCalledWith", () => {
+    it("returns true if the nth call matched the given matcher", async () => {
+      mockServer.get("/foo", 200).get("/bar", 200);
+
+      assert(!mockServer.hasBeenNthCalledWith(1, "/foo"));
+
+      await fetch(`${host}/foo`);
+      await fetch(`${host}/bar`);
+
+      assert(mockServer.hasBeenNthCalledWith(1, "/foo"));
+      assert(
+        mockServer.hasBeenNthCalledWith(2, { method: "GET", path: "/bar" }),
+      );
+
+      assert(!mockServer.hasBeenNthCalledWith(1, "/bar"));
+      assert(!mockServer.hasBeenNthCalledWith(3, "/bar"));
+      assert(!mockServer.hasBeenNthCalledWith(0, "/foo"));
+    });
+  });
+
+  describe("#hasBeenLastCalledWith", () => {
+    it("returns true if the last call matched the given matcher", async () => {
+      mockServer.get("/foo", 200).get("/bar", 200);
+
+      assert(!mockServer.hasBeenLastCalledWith("/foo"));
+
+      await fetch(`${host}/foo`);
+
+      assert(mockServer.hasBeenLastCalledWith("/foo"));
+
+      await fetch(`${host}/bar`);
+
+      assert(mockServer.hasBeenLastCalledWith({ method: "GET", path: "/bar" }));
+      assert(!mockServer.hasBeenLastCalledWith("/foo"));
+    });
+  });
+
+  describe("#waitForCall", () => {
+    it("resolves with calls arriving after it was called", async () => {
+      mockServer.post("/webhook", 204);
+
+      const waiting = mockServer.waitForCall({ path: "/webhook" });
+
+      await fetch(`${host}/webhook`, { method: "POST", body: "foo" });
+
+      const call = await waiting;
+      assert.equal(call.request.method, "POST");
+      assert.equal(call.body, "foo");
+    });
+
+    it("resolves with calls that already happened", async () => {
+      mockServer.get("/foo", 200);
+
+      await fetch(`${host}/foo`);
+
+      const call = await mockServer.waitForCall("/foo");
+      assert.equal(call.request.path, "/foo");
+    });
+
+    it("rejects with an expectation message on timeout", async () => {
+      await assert.rejects(mockServer.waitForCall("/foo", { timeout: 10 }), {
+        message:
+          'Timed out after 10ms\n\nExpected \'mockServer\' to have been called with matcher:\n{\n  "path": "/foo"\n}\n\n',
+      });
+    });
+  });
+
+  describe("#waitForCalls", () => {
+    it("resolves once the server has been called the given number of times", async () => {
+      mockServer.get("/sync", 200);
+
+      const waiting = mockServer.waitForCalls("/sync", { times: 2 });
+
+      await fetch(`${host}/sync`);
+      await fetch(`${host}/sync`);
+      await fetch(`${host}/sync`);
+
+      const calls = await waiting;
+      assert.equal(calls.length, 2);
+      assert.deepEqual(
+        calls.map(({ index }) => index),
+        [0, 1],
+      );
+    });
+
+    it("rejects with an expectation message on timeout", async () => {
+      mockServer.get("/sync", 200);
+
+      await fetch(`${host}/sync`);
+
+      await assert.rejects(
+        mockServer.waitForCalls("/sync", { times: 2, timeout: 10 }),
+        {
+          message:
+            'Timed out after 10ms\n\nExpected \'mockServer\' to have been called 2 times with matcher:\n{\n  "path": "/sync"\n}\n\nActual calls: 1',
+        },
+      );
+    });
+  });
 });
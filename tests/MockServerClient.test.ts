@@ -0,0 +1,213 @@
+import { after, afterEach, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MockServer, MockServerClient } from "../src";
+
+describe("MockServerClient", () => {
+  let host: string;
+  let mockServer: MockServer;
+  let client: MockServerClient;
+
+  before(async () => {
+    mockServer = new MockServer({ admin: true });
+    await mockServer.start();
+    host = mockServer.url();
+    client = new MockServerClient(host);
+  });
+
+  afterEach(() => mockServer.reset());
+  after(() => mockServer.stop());
+
+  describe("#mock", () => {
+    it("registers a mock", async () => {
+      assert.equal(await client.mock("/foo", "foo"), client);
+      await client.mock(/^\/bar$/i, [201, 200], { sequenceEnd: "loop" });
+
+      const foo = await fetch(`${host}/foo`);
+      assert.equal(await foo.text(), "foo");
+
+      const bar = await fetch(`${host}/BAR`);
+      assert.equal(bar.status, 201);
+
+      assert.deepEqual(mockServer.mocks(), [
+        { matcher: { path: "/foo" }, response: { body: "foo" }, options: {} },
+        {
+          matcher: { path: /^\/bar$/i },
+          response: [{ status: 201 }, { status: 200 }],
+          options: { sequenceEnd: "loop" },
+        },
+      ]);
+    });
+
+    it("rejects invalid mocks", async () => {
+      await assert.rejects(
+        client.mock({ method: "GET" }, { status: "200" } as never),
+        {
+          message:
+            'POST /mocks failed (400): POST /__mocaron/mocks: "[0].response.status" expected number',
+        },
+      );
+
+      await assert.rejects(
+        client.mock("/foo", { bodyFile: "/etc/passwd" }),
+        /"\[0\]\.response\.bodyFile" is not supported$/,
+      );
+    });
+  });
+
+  describe("#request", () => {
+    it("rejects with the response of servers without the admin API", async () => {
+      const { warn } = console;
+      console.warn = () => {};
+
+      const server = new MockServer();
+      await server.start();
+
+      server.get("/__mocaron/calls", { status: 502, body: "Bad Gateway" });
+
+      try {
+        const noAdmin = new MockServerClient(server.url());
+
+        await assert.rejects(noAdmin.mocks(), {
+          message: "GET /mocks failed (404)",
+        });
+
+        await assert.rejects(noAdmin.calls(), {
+          message: "GET /calls failed (502): Bad Gateway",
+        });
+      } finally {
+        console.warn = warn;
+        await server.stop();
+      }
+    });
+  });
+
+  describe("#mocks", () => {
+    it("returns all registered mocks", async () => {
+      mockServer.get("/foo", 200, { times: 1 });
+
+      assert.deepEqual(await client.mocks(), [
+        {
+          matcher: { method: "GET", path: "/foo" },
+          response: { status: 200 },
+          options: { times: 1 },
+        },
+      ]);
+    });
+
+    it("rejects when mocks cannot be serialized", async () => {
+      mockServer.get("/foo", () => ({ status: 200 }));
+
+      await assert.rejects(client.mocks(), {
+        message:
+          "GET /mocks failed (500): Cannot export mock at index 0: functions cannot be serialized",
+      });
+    });
+  });
+
+  describe("#calls", () => {
+    it("returns all calls without admin requests", async () => {
+      mockServer
+        .post("/users/:id", 201)
+        .mock(() => true, 200, { overwrite: true });
+
+      await client.calls();
+
+      await fetch(`${host}/users/1?foo=bar`, {
+        method: "POST",
+        headers: { "X-Foo": "foo" },
+        body: "Hello World",
+      });
+
+      const calls = await client.calls();
+
+      assert.equal(calls.length, 1);
+      assert.equal(calls[0].matcher, null);
+      assert.deepEqual(calls[0].params, {});
+      assert.equal(calls[0].index, 0);
+      assert.equal(calls[0].ambiguous, false);
+      assert.equal(calls[0].request.method, "POST");
+      assert.equal(calls[0].request.path, "/users/1");
+      assert.deepEqual(calls[0].request.query, { foo: "bar" });
+      assert.equal(calls[0].request.headers["x-foo"], "foo");
+      assert.equal(calls[0].request.body, "Hello World");
+    });
+  });
+
+  describe("#reset", () => {
+    it("resets all mocks and calls", async () => {
+      mockServer.get("/foo", 200);
+      await fetch(`${host}/foo`);
+
+      await client.reset();
+
+      assert.deepEqual(mockServer.mocks(), []);
+      assert.deepEqual(mockServer.calls(), []);
+    });
+  });
+
+  describe("#resetMocks", () => {
+    it("resets all mocks", async () => {
+      mockServer.get("/foo", 200);
+      await fetch(`${host}/foo`);
+
+      await client.resetMocks();
+
+      assert.deepEqual(mockServer.mocks(), []);
+      assert.equal(mockServer.calls().length, 1);
+    });
+  });
+
+  describe("#resetCalls", () => {
+    it("resets all calls", async () => {
+      mockServer.get("/foo", 200);
+      await fetch(`${host}/foo`);
+
+      await client.resetCalls();
+
+      assert.equal(mockServer.mocks().length, 1);
+      assert.deepEqual(mockServer.calls(), []);
+    });
+  });
+
+  it("never matches admin requests against mocks", async () => {
+    mockServer.mock("/__mocaron/unknown", 200);
+
+    const response = await fetch(`${host}/__mocaron/unknown`);
+
+    assert.equal(response.status, 404);
+    assert.deepEqual(await response.json(), {
+      error: "Unknown admin route GET /__mocaron/unknown",
+    });
+    assert.deepEqual(mockServer.calls(), []);
+  });
+
+  it("rejects malformed JSON", async () => {
+    const response = await fetch(`${host}/__mocaron/mocks`, {
+      method: "POST",
+      body: "{",
+    });
+
+    assert.equal(response.status, 400);
+  });
+
+  it("supports a custom admin path", async () => {
+    const mockServer = new MockServer({ admin: "/admin" });
+    await mockServer.start();
+
+    try {
+      const client = new MockServerClient(`${mockServer.url()}/`, {
+        adminPath: "/admin",
+      });
+
+      await client.mock("/foo", 204);
+
+      const response = await fetch(`${mockServer.url()}/foo`);
+      assert.equal(response.status, 204);
+
+      const admin = await fetch(`${mockServer.url()}/__mocaron/mocks`);
+      assert.equal(admin.status, 404);
+    } finally {
+      await mockServer.stop();
+    }
+  });
+});
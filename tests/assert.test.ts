@@ -0,0 +1,83 @@
+import { after, afterEach, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AssertionError } from "node:assert";
+import { MockServer } from "../src";
+import {
+  assertCalledTimes,
+  assertCalledWith,
+  assertLastCalledWith,
+  assertNotCalledWith,
+  assertNthCalledWith,
+} from "../src/assert";
+
+describe("assert", () => {
+  let host: string;
+  let mockServer: MockServer;
+
+  before(async () => {
+    mockServer = new MockServer();
+    await mockServer.start();
+    host = mockServer.url();
+  });
+
+  afterEach(() => mockServer.reset());
+  after(() => mockServer.stop());
+
+  it("asserts calls", async () => {
+    mockServer.mock(() => true, 200);
+
+    await fetch(`${host}/foo`);
+    await fetch(`${host}/bar`, { method: "POST" });
+
+    assert.doesNotThrow(() => assertCalledWith(mockServer, "/foo"));
+    assert.doesNotThrow(() => assertNotCalledWith(mockServer, "/baz"));
+    assert.doesNotThrow(() => assertCalledTimes(mockServer, 1, /\/bar/));
+    assert.doesNotThrow(() =>
+      assertNthCalledWith(mockServer, 2, { method: "POST", path: "/bar" }),
+    );
+    assert.doesNotThrow(() => assertLastCalledWith(mockServer, "/bar"));
+  });
+
+  it("throws assertion errors with expectation messages", async () => {
+    mockServer.get("/foo", 200);
+
+    await fetch(`${host}/foo`);
+
+    assert.throws(
+      () => assertCalledWith(mockServer, (req) => req.path === "/baz"),
+      new AssertionError({
+        message: `Expected 'mockServer' to have been called with matcher:\n(req) => req.path === "/baz"\n\nGET /foo:\nReceived (matcher is a function):\n{\n  "method": "GET",\n  "path": "/foo",\n  "query": {}\n}`,
+      }),
+    );
+
+    assert.throws(
+      () => assertNotCalledWith(mockServer, "/foo"),
+      new AssertionError({
+        message: `Expected 'mockServer' not to have been called with matcher:\n{\n  "path": "/foo"\n}\n\nMatching calls:\n  1. GET /foo`,
+      }),
+    );
+
+    assert.throws(
+      () => assertCalledTimes(mockServer, 2, "/foo"),
+      new AssertionError({
+        message: `Expected 'mockServer' to have been called 2 times with matcher:\n{\n  "path": "/foo"\n}\n\nActual calls: 1`,
+      }),
+    );
+
+    assert.throws(
+      () => assertNthCalledWith(mockServer, 2, "/foo"),
+      new AssertionError({
+        message: `Expected call 2 of 'mockServer' to have matched matcher:\n{\n  "path": "/foo"\n}\n\nActual calls: 1`,
+      }),
+    );
+
+    mockServer.resetCalls();
+
+    assert.throws(
+      () => assertLastCalledWith(mockServer, "/foo"),
+      new AssertionError({
+        message: `Expected the last call of 'mockServer' to have matched matcher:\n{\n  "path": "/foo"\n}\n\nActual calls: 0`,
+      }),
+    );
+  });
+});
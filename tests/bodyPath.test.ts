@@ -0,0 +1,44 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { selectBodyPath } from "../src/bodyPath";
+
+describe("selectBodyPath", () => {
+  const body = {
+    user: { name: "John", "a/b": 1, "m~n": 2 },
+    items: [{ id: 1 }, { id: 2 }],
+  };
+
+  it("selects values by JSON Pointer", () => {
+    assert.equal(selectBodyPath("", body), body);
+    assert.equal(selectBodyPath("/user/name", body), "John");
+    assert.equal(selectBodyPath("/user/a~1b", body), 1);
+    assert.equal(selectBodyPath("/user/m~0n", body), 2);
+    assert.equal(selectBodyPath("/items/1/id", body), 2);
+    assert.equal(selectBodyPath("/items/01/id", body), undefined);
+    assert.equal(selectBodyPath("/items/-", body), undefined);
+    assert.equal(selectBodyPath("/user/name/length", body), undefined);
+    assert.equal(selectBodyPath("/missing", body), undefined);
+    assert.equal(selectBodyPath("user", body), undefined);
+  });
+
+  it("selects values by JSONPath", () => {
+    assert.equal(selectBodyPath("$", body), body);
+    assert.equal(selectBodyPath("$.user.name", body), "John");
+    assert.deepEqual(selectBodyPath("$.items", body), body.items);
+    assert.deepEqual(selectBodyPath("$.items[*].id", body), [1, 2]);
+    assert.deepEqual(selectBodyPath("$..id", body), [1, 2]);
+    assert.deepEqual(selectBodyPath("$.items[?(@.id > 1)]", body), [{ id: 2 }]);
+    assert.deepEqual(selectBodyPath("$.items[1:]", body), [{ id: 2 }]);
+    assert.deepEqual(selectBodyPath("$.items[0,1].id", body), [1, 2]);
+    assert.deepEqual(selectBodyPath("$.user.*", { user: { name: "John" } }), [
+      "John",
+    ]);
+    assert.deepEqual(selectBodyPath("$.items[*].id", { items: [{ id: 1 }] }), [
+      1,
+    ]);
+    assert.deepEqual(selectBodyPath("$.items[*].id", { items: [] }), []);
+    assert.equal(selectBodyPath("$.missing", body), undefined);
+    assert.equal(selectBodyPath("$.user.name", "John"), undefined);
+    assert.equal(selectBodyPath("$", "John"), "John");
+  });
+});
@@ -0,0 +1,135 @@
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { setTimeout } from "node:timers/promises";
+import { cli } from "../src/cli";
+
+describe("cli", () => {
+  const { log, warn, error } = console;
+  let output: string[];
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "mocaron-"));
+  });
+
+  beforeEach(async () => {
+    output = [];
+    console.log =
+      console.warn =
+      console.error =
+        (message) => output.push(message);
+
+    await writeFile(
+      path.join(dir, "mocks.json"),
+      JSON.stringify([
+        { matcher: { method: "GET", path: "/foo" }, response: "foo" },
+        { matcher: { path: "/bar" }, response: 200 },
+        { matcher: { path: { regexp: "^/bar" } }, response: 200 },
+      ]),
+    );
+  });
+
+  afterEach(() => {
+    console.log = log;
+    console.warn = warn;
+    console.error = error;
+  });
+
+  after(() => rm(dir, { recursive: true }));
+
+  function url() {
+    const line = output.find((l) => l.startsWith("Mock server listening on"));
+    return line!.split(" ").at(-1);
+  }
+
+  it("starts a mock server from fixture files", async () => {
+    const stop = await cli([dir, "--port", "0"]);
+
+    try {
+      const foo = await fetch(`${url()}/foo`);
+      assert.equal(await foo.text(), "foo");
+
+      const baz = await fetch(`${url()}/baz?baz=1`);
+      assert.equal(baz.status, 404);
+
+      const bar = await fetch(`${url()}/bar`);
+      assert.equal(bar.status, 404);
+    } finally {
+      await stop();
+    }
+
+    const [unmatched] = output.splice(2, 1);
+
+    assert.match(
+      unmatched,
+      /^Unmatched GET \/baz\?baz=1\nGET \/baz:\nClosest mock GET \/foo:\n/,
+    );
+
+    assert.deepEqual(output, [
+      `Loaded 3 mocks from ${dir}`,
+      `Mock server listening on ${url()}`,
+      [
+        "Ambiguous GET /bar matched 2 mocks:",
+        "  - * /bar",
+        "  - * /^\\/bar/",
+        'Set "overwrite: true" on the last mock to use it',
+      ].join("\n"),
+    ]);
+  });
+
+  it("reloads mocks when fixture files change", async () => {
+    const stop = await cli([dir, "-w"]);
+
+    try {
+      await writeFile(
+        path.join(dir, "mocks.json"),
+        '[{ "matcher": { "path": "/foo" }, "response": "bar" }]',
+      );
+
+      await waitFor(() => output.includes(`Reloaded 1 mocks from ${dir}`));
+
+      const foo = await fetch(`${url()}/foo`);
+      assert.equal(await foo.text(), "bar");
+
+      await writeFile(path.join(dir, "mocks.json"), "[");
+
+      await waitFor(() =>
+        output.some((l) => l.startsWith("Failed to reload mocks")),
+      );
+
+      const previous = await fetch(`${url()}/foo`);
+      assert.equal(await previous.text(), "bar");
+    } finally {
+      await stop();
+    }
+  });
+
+  it("mounts the admin API", async () => {
+    const stop = await cli([dir, "--admin"]);
+
+    try {
+      const response = await fetch(`${url()}/__mocaron/mocks`);
+      assert.equal((await response.json()).length, 3);
+    } finally {
+      await stop();
+    }
+  });
+
+  it("prints usage", async () => {
+    await cli(["--help"]);
+    assert.match(output[0], /^Usage: mocaron <path> \[options\]/);
+  });
+
+  it("rejects invalid arguments", async () => {
+    await assert.rejects(cli([]), /^Error: Expected exactly one fixture path/);
+    await assert.rejects(cli([dir, "-p", "foo"]), /^Error: Invalid port: foo/);
+  });
+});
+
+async function waitFor(condition: () => boolean) {
+  for (let i = 0; i < 50 && !condition(); i++) await setTimeout(50);
+  assert(condition(), "condition was not met in time");
+}
@@ -0,0 +1,175 @@
+import { after, afterEach, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MockServer } from "../src";
+import { matchers } from "../src/expect";
+import type { expect as jestExpect } from "expect";
+import type { expect as vitestExpect } from "vitest";
+
+describe("matchers", () => {
+  let host: string;
+  let mockServer: MockServer;
+
+  before(async () => {
+    mockServer = new MockServer();
+    await mockServer.start();
+    host = mockServer.url();
+  });
+
+  afterEach(() => mockServer.reset());
+  after(() => mockServer.stop());
+
+  describe(".toHaveReceivedRequest", () => {
+    it("passes if the mock server has been called with the matcher", async () => {
+      mockServer.get("/foo", 200);
+
+      await fetch(`${host}/foo`);
+
+      const result = matchers.toHaveReceivedRequest.call(
+        { isNot: true },
+        mockServer,
+        "/foo",
+      );
+
+      assert(result.pass);
+      assert.equal(
+        result.message(),
+        `Expected 'mockServer' not to have been called with matcher:\n{\n  "path": "/foo"\n}\n\nMatching calls:\n  1. GET /foo`,
+      );
+    });
+
+    it("fails if the mock server has not been called with the matcher", () => {
+      const result = matchers.toHaveReceivedRequest.call(
+        { isNot: false },
+        mockServer,
+        { path: "/foo" },
+      );
+
+      assert(!result.pass);
+      assert.equal(
+        result.message(),
+        `Expected 'mockServer' to have been called with matcher:\n{\n  "path": "/foo"\n}\n\n`,
+      );
+    });
+
+    it("throws if not called with a mock server", () => {
+      assert.throws(
+        () => matchers.toHaveReceivedRequest.call({ isNot: false }, {}, "/foo"),
+        new TypeError(
+          "toHaveReceivedRequest() expects a MockServer, received object",
+        ),
+      );
+    });
+  });
+
+  describe(".toHaveReceivedRequestTimes", () => {
+    it("checks the number of calls", async () => {
+      mockServer.get("/foo", 200);
+
+      await fetch(`${host}/foo`);
+      await fetch(`${host}/foo`);
+
+      const pass = matchers.toHaveReceivedRequestTimes.call(
+        { isNot: true },
+        mockServer,
+        2,
+        "/foo",
+      );
+
+      assert(pass.pass);
+      assert.equal(
+        pass.message(),
+        `Expected 'mockServer' not to have been called 2 times with matcher:\n{\n  "path": "/foo"\n}`,
+      );
+
+      const fail = matchers.toHaveReceivedRequestTimes.call(
+        { isNot: false },
+        mockServer,
+        3,
+        "/foo",
+      );
+
+      assert(!fail.pass);
+      assert.equal(
+        fail.message(),
+        `Expected 'mockServer' to have been called 3 times with matcher:\n{\n  "path": "/foo"\n}\n\nActual calls: 2`,
+      );
+    });
+  });
+
+  describe(".toHaveReceivedNthRequest", () => {
+    it("checks the nth call", async () => {
+      mockServer.mock(() => true, 200);
+
+      await fetch(`${host}/foo`);
+      await fetch(`${host}/bar`);
+
+      const pass = matchers.toHaveReceivedNthRequest.call(
+        { isNot: true },
+        mockServer,
+        2,
+        "/bar",
+      );
+
+      assert(pass.pass);
+      assert.equal(
+        pass.message(),
+        `Expected call 2 of 'mockServer' not to have matched matcher:\n{\n  "path": "/bar"\n}`,
+      );
+
+      const fail = matchers.toHaveReceivedNthRequest.call(
+        { isNot: false },
+        mockServer,
+        3,
+        "/bar",
+      );
+
+      assert(!fail.pass);
+      assert.equal(
+        fail.message(),
+        `Expected call 3 of 'mockServer' to have matched matcher:\n{\n  "path": "/bar"\n}\n\nActual calls: 2`,
+      );
+    });
+  });
+
+  describe(".toHaveReceivedLastRequest", () => {
+    it("checks the last call", async () => {
+      mockServer.mock(() => true, 200);
+
+      await fetch(`${host}/foo`);
+      await fetch(`${host}/bar`);
+
+      const pass = matchers.toHaveReceivedLastRequest.call(
+        { isNot: true },
+        mockServer,
+        "/bar",
+      );
+
+      assert(pass.pass);
+      assert.equal(
+        pass.message(),
+        `Expected the last call of 'mockServer' not to have matched matcher:\n{\n  "path": "/bar"\n}`,
+      );
+
+      assert(
+        !matchers.toHaveReceivedLastRequest.call(
+          { isNot: false },
+          mockServer,
+          "/foo",
+        ).pass,
+      );
+    });
+  });
+});
+
+// type-level test, only checked by the type-check
+export function typecheck(
+  mockServer: MockServer,
+  expect: typeof jestExpect | typeof vitestExpect,
+) {
+  expect(mockServer).toHaveReceivedRequest({ method: "GET", path: "/x" });
+  expect(mockServer).toHaveReceivedRequestTimes(1, "/x");
+  expect(mockServer).toHaveReceivedNthRequest(1, /\/x/);
+  expect(mockServer).not.toHaveReceivedLastRequest("/x");
+  // @ts-expect-error the matcher is required
+  expect(mockServer).toHaveReceivedRequestTimes(1);
+}
@@ -0,0 +1,284 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { FixtureError } from "../src";
+import { loadFixtures } from "../src/fixtures";
+
+describe("loadFixtures", () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "mocaron-"));
+  });
+
+  after(() => rm(dir, { recursive: true }));
+
+  async function fixture(name: string, content: string) {
+    const file = path.join(dir, name);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, content);
+    return file;
+  }
+
+  it("loads json fixtures", async () => {
+    const file = await fixture(
+      "mocks.json",
+      JSON.stringify([
+        {
+          matcher: { method: "GET", path: { regexp: "^/users/\\d+$" } },
+          response: { status: 200, body: { id: 1 }, delay: 10 },
+        },
+        {
+          matcher: { path: "/status" },
+          response: ["pending", 204],
+          options: { sequenceEnd: "loop", times: 3, priority: 1 },
+        },
+        {
+          matcher: { body: { id: 1 }, bodyMatch: { partial: true } },
+          response: 201,
+        },
+        {
+          matcher: {
+            host: { regexp: "^tenant-\\d+\\.example\\.com$", flags: "i" },
+            ip: "127.0.0.1",
+            protocol: "https",
+            cookies: { session: "abc" },
+            headers: {
+              authorization: { regexp: "^Bearer " },
+              accept: ["application/json", { regexp: "html" }],
+            },
+          },
+          response: 200,
+        },
+      ]),
+    );
+
+    assert.deepEqual(await loadFixtures(file), [
+      {
+        matcher: { method: "GET", path: /^\/users\/\d+$/ },
+        response: { status: 200, body: { id: 1 }, delay: 10 },
+        options: {},
+      },
+      {
+        matcher: { path: "/status" },
+        response: [{ body: "pending" }, { status: 204 }],
+        options: { sequenceEnd: "loop", times: 3, priority: 1 },
+      },
+      {
+        matcher: { body: { id: 1 }, bodyMatch: { partial: true } },
+        response: { status: 201 },
+        options: {},
+      },
+      {
+        matcher: {
+          host: /^tenant-\d+\.example\.com$/i,
+          ip: "127.0.0.1",
+          protocol: "https",
+          cookies: { session: "abc" },
+          headers: {
+            authorization: /^Bearer /,
+            accept: ["application/json", /html/],
+          },
+        },
+        response: { status: 200 },
+        options: {},
+      },
+    ]);
+  });
+
+  it("loads yaml fixtures with body files", async () => {
+    await fixture("bodies/user.json", '{ "id": 1 }');
+
+    const file = await fixture(
+      "mocks.yaml",
+      [
+        "- matcher:",
+        "    path:",
+        "      regexp: ^/users$",
+        "      flags: i",
+        "  response:",
+        "    bodyFile: bodies/user.json",
+        "    headers:",
+        "      Content-Type: application/json",
+      ].join("\n"),
+    );
+
+    assert.deepEqual(await loadFixtures(file), [
+      {
+        matcher: { path: /^\/users$/i },
+        response: {
+          headers: { "Content-Type": "application/json" },
+          body: '{ "id": 1 }',
+        },
+        options: {},
+      },
+    ]);
+  });
+
+  it("loads all fixtures in a directory", async () => {
+    const nested = await mkdtemp(path.join(dir, "nested-"));
+    await writeFile(path.join(nested, "b.yml"), "- matcher: {}\n  response: 2");
+    await mkdir(path.join(nested, "sub"));
+    await writeFile(
+      path.join(nested, "sub", "c.json"),
+      '[{ "matcher": {}, "response": 3 }]',
+    );
+    await writeFile(
+      path.join(nested, "a.json"),
+      '[{ "matcher": {}, "response": 1 }]',
+    );
+    await writeFile(path.join(nested, "README.md"), "ignored");
+
+    const mocks = await loadFixtures(nested);
+
+    assert.deepEqual(
+      mocks.map(({ response }) => response),
+      [{ status: 1 }, { status: 2 }, { status: 3 }],
+    );
+  });
+
+  it("reports the file and the invalid field", async () => {
+    const cases: Array<[string, unknown, string | undefined, string]> = [
+      ["not-an-array", {}, undefined, "expected an array of mocks"],
+      ["missing-matcher", [{ response: 1 }], "[0].matcher", "is required"],
+      [
+        "unknown-key",
+        [{ matcher: {}, response: 1, foo: 1 }],
+        "[0].foo",
+        "is unknown",
+      ],
+      [
+        "invalid-method",
+        [
+          { matcher: {}, response: 1 },
+          { matcher: { method: 1 }, response: 1 },
+        ],
+        "[1].matcher.method",
+        "expected string",
+      ],
+      [
+        "invalid-regexp",
+        [{ matcher: { path: { regexp: "(" } }, response: 1 }],
+        "[0].matcher.path.regexp",
+        "Invalid regular expression: /(/: Unterminated group",
+      ],
+      [
+        "null-body",
+        [{ matcher: { body: null }, response: 1 }],
+        "[0].matcher.body",
+        "expected string or object or array",
+      ],
+      [
+        "invalid-path",
+        [{ matcher: { path: "/files/*" }, response: 1 }],
+        "[0].matcher.path",
+        'Invalid path "/files/*": use "(.*)" or a repeated parameter like ":path*" instead of a bare "*"',
+      ],
+      [
+        "missing-regexp",
+        [{ matcher: { path: {} }, response: 1 }],
+        "[0].matcher.path.regexp",
+        "is required",
+      ],
+      [
+        "invalid-host",
+        [{ matcher: { host: { regexp: "[" } }, response: 1 }],
+        "[0].matcher.host.regexp",
+        "Invalid regular expression: /[/: Unterminated character class",
+      ],
+      [
+        "invalid-header",
+        [{ matcher: { headers: { accept: ["text/html", 1] } }, response: 1 }],
+        "[0].matcher.headers.accept[1]",
+        "expected an object",
+      ],
+      [
+        "invalid-protocol",
+        [{ matcher: { protocol: "ftp" }, response: 1 }],
+        "[0].matcher.protocol",
+        'expected "http" or "https"',
+      ],
+      [
+        "invalid-body-match",
+        [{ matcher: { bodyMatch: { arrays: "unordered" } }, response: 1 }],
+        "[0].matcher.bodyMatch.arrays",
+        'expected "exact", "prefix" or "contains"',
+      ],
+      [
+        "invalid-status",
+        [{ matcher: {}, response: [1, { status: "200" }] }],
+        "[0].response[1].status",
+        "expected number",
+      ],
+      [
+        "empty-sequence",
+        [{ matcher: {}, response: [] }],
+        "[0].response",
+        "must contain at least one response",
+      ],
+      [
+        "body-and-body-file",
+        [{ matcher: {}, response: { body: "", bodyFile: "foo" } }],
+        "[0].response.bodyFile",
+        "cannot be combined with body",
+      ],
+      [
+        "invalid-times",
+        [{ matcher: {}, response: 1, options: { times: 0 } }],
+        "[0].options.times",
+        "expected a positive integer",
+      ],
+      [
+        "invalid-sequence-end",
+        [{ matcher: {}, response: 1, options: { sequenceEnd: "stop" } }],
+        "[0].options.sequenceEnd",
+        'expected "repeat", "loop" or "fallthrough"',
+      ],
+      [
+        "invalid-options",
+        [{ matcher: {}, response: 1, options: [] }],
+        "[0].options",
+        "expected an object",
+      ],
+    ];
+
+    for (const [name, content, field, reason] of cases) {
+      const file = await fixture(`${name}.json`, JSON.stringify(content));
+
+      await assert.rejects(loadFixtures(file), (error) => {
+        assert(error instanceof FixtureError);
+        assert.equal(error.file, file);
+        assert.equal(error.field, field);
+        assert.equal(
+          error.message,
+          `${file}: ${field ? `"${field}" ` : ""}${reason}`,
+        );
+        return true;
+      });
+    }
+  });
+
+  it("reports missing body files", async () => {
+    const file = await fixture(
+      "missing-body-file.json",
+      '[{ "matcher": {}, "response": { "bodyFile": "missing.json" } }]',
+    );
+
+    await assert.rejects(loadFixtures(file), {
+      name: "FixtureError",
+      field: "[0].response.bodyFile",
+    });
+  });
+
+  it("reports syntax errors", async () => {
+    const file = await fixture("syntax-error.json", "[");
+
+    await assert.rejects(loadFixtures(file), {
+      name: "FixtureError",
+      file,
+      field: undefined,
+    });
+  });
+});
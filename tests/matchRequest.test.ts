@@ -1,7 +1,13 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
 import { createRequest, type RequestOptions } from "node-mocks-http";
-import { matchRequest, type Matcher } from "../src/matchRequest";
+import {
+  extractParams,
+  matchRequest,
+  resolvePathMatcher,
+  type Matcher,
+} from "../src/matchRequest";
+import { Match, and, not, or } from "../src";
 
 describe("matchRequest", () => {
   it("matches with method", () => {
@@ -52,6 +58,82 @@ describe("matchRequest", () => {
     assertRequestMatches(matcher, { matches, fails });
   });
 
+  it("matches with path parameters", () => {
+    assertRequestMatches(
+      { path: "/users/:id" },
+      {
+        matches: [{ path: "/users/1" }, { path: "/users/foo" }],
+        fails: [{ path: "/users" }, { path: "/users/1/posts" }],
+      },
+    );
+
+    assertRequestMatches(
+      { path: "/users/:id?" },
+      {
+        matches: [{ path: "/users" }, { path: "/users/1" }],
+        fails: [{ path: "/users/1/posts" }],
+      },
+    );
+
+    assertRequestMatches(
+      { path: "/files/:path*" },
+      {
+        matches: [{ path: "/files" }, { path: "/files/a/b/c" }],
+        fails: [{ path: "/foo/files" }],
+      },
+    );
+
+    assertRequestMatches(
+      { path: "/api/(.*)" },
+      {
+        matches: [{ path: "/api/users" }, { path: "/api/users/1" }],
+        fails: [{ path: "/users" }],
+      },
+    );
+  });
+
+  it("matches string paths with pattern characters literally", () => {
+    assertRequestMatches(
+      { path: "/files/report(1).pdf" },
+      {
+        matches: [{ path: "/files/report(1).pdf" }],
+        fails: [{ path: "/files/report(2).pdf" }],
+      },
+    );
+
+    assertRequestMatches(
+      { path: "/v1/items\\:batchGet" },
+      {
+        matches: [{ path: "/v1/items:batchGet" }],
+        fails: [{ path: "/v1/itemsXYZ" }],
+      },
+    );
+
+    assertRequestMatches(
+      { path: "/time/12\\:30" },
+      {
+        matches: [{ path: "/time/12:30" }],
+        fails: [{ path: "/time/12abc" }],
+      },
+    );
+
+    assertRequestMatches(
+      { path: "/c++" },
+      { matches: [{ path: "/c++" }], fails: [{ path: "/c" }] },
+    );
+  });
+
+  it("throws for invalid path patterns", () => {
+    assert.throws(() => resolvePathMatcher("/files/*"), {
+      message:
+        'Invalid path "/files/*": use "(.*)" or a repeated parameter like ":path*" instead of a bare "*"',
+    });
+
+    assert.throws(() => resolvePathMatcher(not({ path: "/a(" })), {
+      message: 'Invalid path "/a(": Unbalanced pattern at 2',
+    });
+  });
+
   it("matches with query", () => {
     const matcher = {
       query: { foo: "bar", array: ["a", "b", "c"], baz: undefined },
@@ -100,6 +182,153 @@ describe("matchRequest", () => {
     assertRequestMatches(matcher, { matches, fails });
   });
 
+  it("matches with regex headers", () => {
+    assertRequestMatches(
+      { headers: { Authorization: /^Bearer \w+$/ } },
+      {
+        matches: [
+          { headers: { authorization: "Bearer abc" } },
+          { headers: { authorization: "Bearer def" } },
+        ],
+        fails: [{ headers: { authorization: "Basic abc" } }, {}],
+      },
+    );
+  });
+
+  it("matches with multi-value headers", () => {
+    assertRequestMatches(
+      { headers: { "set-cookie": ["b=2", /^a=/] } },
+      {
+        matches: [
+          { headers: { "set-cookie": ["a=1", "b=2"] } },
+          { headers: { "set-cookie": ["c=3", "b=2", "a=1"] } },
+        ],
+        fails: [{ headers: { "set-cookie": ["a=1"] } }, {}],
+      },
+    );
+
+    assertRequestMatches(
+      { headers: { "x-tags": ["foo", "bar"] } },
+      {
+        matches: [{ headers: { "x-tags": "bar, foo" } }],
+        fails: [
+          { headers: { "x-tags": "foo" } },
+          { headers: { "x-tags": "foo bar" } },
+        ],
+      },
+    );
+  });
+
+  it("matches with media type headers", () => {
+    assertRequestMatches(
+      { headers: { "Content-Type": "application/json; charset=UTF-8; v=1" } },
+      {
+        matches: [
+          { headers: { "content-type": "application/json;v=1;charset=utf-8" } },
+          {
+            headers: {
+              "content-type": 'Application/JSON; V="1"; Charset=utf-8; q=1',
+            },
+          },
+        ],
+        fails: [
+          { headers: { "content-type": "application/json; charset=utf-8" } },
+          { headers: { "content-type": "text/json; charset=utf-8; v=1" } },
+          {
+            headers: { "content-type": "application/json; charset=utf-8; v=2" },
+          },
+        ],
+      },
+    );
+
+    assertRequestMatches(
+      { headers: { accept: ["application/json", "text/html"] } },
+      {
+        matches: [{ headers: { accept: "text/html, application/json;q=0.9" } }],
+        fails: [{ headers: { accept: "application/json" } }],
+      },
+    );
+  });
+
+  it("matches with cookies", () => {
+    const matcher = {
+      cookies: { session: "a b", theme: Match.anything(), admin: undefined },
+    };
+
+    const matches = [
+      { headers: { cookie: "session=a%20b; theme=dark" } },
+      { headers: { cookie: 'theme=light;session="a b";session=other' } },
+    ];
+
+    const fails = [
+      { headers: { cookie: "session=a%20b; theme=dark; admin=1" } },
+      { headers: { cookie: "session=other; theme=dark" } },
+      { headers: { cookie: "session=a%20b" } },
+      { cookies: { session: "a b", theme: "dark" } },
+      {},
+    ];
+
+    assertRequestMatches(matcher, { matches, fails });
+  });
+
+  it("matches with string host", () => {
+    assertRequestMatches(
+      { host: "Tenant.example.com" },
+      {
+        matches: [
+          { hostname: "tenant.example.com" },
+          { headers: { host: "TENANT.example.com:3000" } },
+        ],
+        fails: [
+          { hostname: "other.example.com" },
+          { hostname: "tenant.example.com.evil" },
+          {},
+        ],
+      },
+    );
+  });
+
+  it("matches with regex host", () => {
+    assertRequestMatches(
+      { host: /^(?<tenant>[a-z]+)\.example\.com$/ },
+      {
+        matches: [
+          { hostname: "foo.example.com" },
+          { headers: { host: "bar.example.com:8080" } },
+        ],
+        fails: [{ hostname: "example.com" }, { hostname: "foo.example.org" }],
+      },
+    );
+  });
+
+  it("matches with protocol", () => {
+    assertRequestMatches(
+      { protocol: "https" },
+      {
+        matches: [{ protocol: "https" }],
+        fails: [{ protocol: "http" }, {}],
+      },
+    );
+  });
+
+  it("matches with ip", () => {
+    assertRequestMatches(
+      { ip: "127.0.0.1" },
+      {
+        matches: [{ ip: "127.0.0.1" }, { ip: "::ffff:127.0.0.1" }],
+        fails: [{ ip: "10.0.0.1" }, { ip: "::1" }],
+      },
+    );
+
+    assertRequestMatches(
+      { ip: /^10\./ },
+      {
+        matches: [{ ip: "10.0.0.1" }, { ip: "::ffff:10.1.2.3" }],
+        fails: [{ ip: "127.0.0.1" }, { ip: "110.0.0.1" }],
+      },
+    );
+  });
+
   it("matches with string body", () => {
     const matcher = { body: "foobar" };
 
@@ -146,6 +375,239 @@ describe("matchRequest", () => {
     assertRequestMatches(matcher, { matches, fails });
   });
 
+  it("matches with asymmetric matchers", () => {
+    const matcher = {
+      query: { page: Match.stringMatching(/^\d+$/) },
+      headers: { "X-Request-Id": Match.anything() },
+      body: { id: Match.any(String), items: Match.arrayContaining([1]) },
+    };
+
+    const body = (value: unknown) => Buffer.from(JSON.stringify(value));
+
+    const matches = [
+      {
+        query: { page: "1" },
+        headers: { "x-request-id": "abc" },
+        body: body({ id: "1", items: [2, 1] }),
+      },
+    ];
+
+    const fails = [
+      {
+        query: { page: "a" },
+        headers: { "x-request-id": "abc" },
+        body: body({ id: "1", items: [2, 1] }),
+      },
+      {
+        query: { page: "1" },
+        body: body({ id: "1", items: [2, 1] }),
+      },
+      {
+        query: { page: "1" },
+        headers: { "x-request-id": "abc" },
+        body: body({ id: 1, items: [2, 1] }),
+      },
+    ];
+
+    assertRequestMatches(matcher, { matches, fails });
+  });
+
+  it("matches raw bodies with asymmetric matchers", () => {
+    const matcher = { body: Match.stringContaining("foo") };
+
+    assertRequestMatches(matcher, {
+      matches: [{ body: Buffer.from("foobar") }],
+      fails: [{ body: Buffer.from("bar") }, { body: Buffer.from('"bar"') }],
+    });
+  });
+
+  it("matches with partial json body", () => {
+    const body = (value: unknown) => Buffer.from(JSON.stringify(value));
+
+    const matcher = {
+      body: { user: { name: "John" }, tags: ["a", "b"], deleted: undefined },
+      bodyMatch: { partial: true },
+    };
+
+    assertRequestMatches(matcher, {
+      matches: [
+        { body: body({ user: { name: "John", age: 30 }, tags: ["a", "b"] }) },
+        { body: body({ id: 1, user: { name: "John" }, tags: ["a", "b"] }) },
+      ],
+      fails: [
+        { body: body({ user: { name: "Jane" }, tags: ["a", "b"] }) },
+        { body: body({ user: {}, tags: ["a", "b"] }) },
+        { body: body({ user: { name: "John" }, tags: ["a", "b", "c"] }) },
+        {
+          body: body({ user: { name: "John" }, tags: ["a", "b"], deleted: 1 }),
+        },
+        { body: body([]) },
+      ],
+    });
+  });
+
+  it("matches partial json body arrays by prefix", () => {
+    const body = (value: unknown) => Buffer.from(JSON.stringify(value));
+
+    const matcher = {
+      body: { items: [{ id: 1 }, { id: 2 }] },
+      bodyMatch: { partial: true, arrays: "prefix" as const },
+    };
+
+    assertRequestMatches(matcher, {
+      matches: [
+        { body: body({ items: [{ id: 1 }, { id: 2 }] }) },
+        { body: body({ items: [{ id: 1, n: 1 }, { id: 2 }, { id: 3 }] }) },
+      ],
+      fails: [
+        { body: body({ items: [{ id: 2 }, { id: 1 }] }) },
+        { body: body({ items: [{ id: 1 }] }) },
+        { body: body({ items: {} }) },
+      ],
+    });
+  });
+
+  it("matches partial json body arrays by contained elements", () => {
+    const body = (value: unknown) => Buffer.from(JSON.stringify(value));
+
+    const matcher = {
+      body: { items: [{ id: 1 }, { id: 2 }] },
+      bodyMatch: { partial: true, arrays: "contains" as const },
+    };
+
+    assertRequestMatches(matcher, {
+      matches: [
+        { body: body({ items: [{ id: 2 }, { id: 1 }] }) },
+        { body: body({ items: [{ id: 3 }, { id: 2, n: 1 }, { id: 1 }] }) },
+      ],
+      fails: [
+        { body: body({ items: [{ id: 1 }] }) },
+        { body: body({ items: [{ id: 3 }] }) },
+      ],
+    });
+  });
+
+  it("matches with form body", () => {
+    const matcher = { body: { name: "John", tag: ["a", "b"] } };
+    const headers = { "content-type": "application/x-www-form-urlencoded" };
+
+    assertRequestMatches(matcher, {
+      matches: [{ headers, body: Buffer.from("name=John&tag=a&tag=b") }],
+      fails: [
+        { headers, body: Buffer.from("name=John&tag=a") },
+        { body: Buffer.from("name=John&tag=a&tag=b") },
+      ],
+    });
+  });
+
+  it("matches with multipart body", () => {
+    const matcher = {
+      body: {
+        name: "John",
+        avatar: Match.objectContaining({ filename: "avatar.png", size: 5 }),
+      },
+    };
+
+    const headers = { "content-type": "multipart/form-data; boundary=X" };
+
+    const body = (filename: string) =>
+      Buffer.from(
+        [
+          "--X",
+          'Content-Disposition: form-data; name="name"',
+          "",
+          "John",
+          "--X",
+          `Content-Disposition: form-data; name="avatar"; filename="${filename}"`,
+          "Content-Type: image/png",
+          "",
+          "image",
+          "--X--",
+          "",
+        ].join("\r\n"),
+      );
+
+    assertRequestMatches(matcher, {
+      matches: [{ headers, body: body("avatar.png") }],
+      fails: [{ headers, body: body("avatar.jpg") }],
+    });
+  });
+
+  it("matches with xml body", () => {
+    const matcher = {
+      body: { GetUser: { "@id": "1" } },
+      bodyMatch: { partial: true },
+    };
+
+    const headers = { "content-type": "application/xml" };
+
+    assertRequestMatches(matcher, {
+      matches: [
+        { headers, body: Buffer.from('<GetUser id="1"><Name/></GetUser>') },
+      ],
+      fails: [
+        { headers, body: Buffer.from('<GetUser id="2"><Name/></GetUser>') },
+        { body: Buffer.from('<GetUser id="1"><Name/></GetUser>') },
+      ],
+    });
+  });
+
+  it("matches with body path", () => {
+    const body = (value: unknown) => Buffer.from(JSON.stringify(value));
+
+    const matcher = {
+      bodyPath: {
+        "/order/id": Match.any(String),
+        "$.order.items[*].sku": ["a", "b"],
+        "/order/cancelled": undefined,
+      },
+    };
+
+    assertRequestMatches(matcher, {
+      matches: [
+        {
+          body: body({
+            order: { id: "1", items: [{ sku: "a" }, { sku: "b" }] },
+          }),
+        },
+      ],
+      fails: [
+        {
+          body: body({ order: { id: 1, items: [{ sku: "a" }, { sku: "b" }] } }),
+        },
+        { body: body({ order: { id: "1", items: [{ sku: "a" }] } }) },
+        {
+          body: body({
+            order: {
+              id: "1",
+              items: [{ sku: "a" }, { sku: "b" }],
+              cancelled: 1,
+            },
+          }),
+        },
+        { path: "/foo" },
+      ],
+    });
+  });
+
+  it("matches with composite matchers", () => {
+    assertRequestMatches(or({ path: "/a" }, { path: "/b" }), {
+      matches: [{ path: "/a" }, { path: "/b", method: "POST" }],
+      fails: [{ path: "/c" }],
+    });
+
+    assertRequestMatches(
+      and({ path: "/a" }, not({ method: "OPTIONS" }), () => true),
+      {
+        matches: [{ path: "/a" }, { path: "/a", method: "POST" }],
+        fails: [{ path: "/a", method: "OPTIONS" }, { path: "/b" }],
+      },
+    );
+
+    assertRequestMatches(and(), { matches: [{ path: "/a" }], fails: [] });
+    assertRequestMatches(or(), { matches: [], fails: [{ path: "/a" }] });
+  });
+
   it("matches with matcher function", () => {
     const requests = [{ path: "/test" }, { query: { foo: "bar" } }];
     assertRequestMatches(() => true, { matches: requests, fails: [] });
@@ -159,6 +621,75 @@ describe("matchRequest", () => {
   });
 });
 
+describe("extractParams", () => {
+  it("extracts parameters of string paths", () => {
+    assert.deepEqual(
+      extractParams(
+        { path: "/users/:id/:path*" },
+        createRequest({ path: "/users/a%20b/c/d" }),
+      ),
+      { id: "a b", path: "c/d" },
+    );
+
+    assert.deepEqual(
+      extractParams({ path: "/users/:id?" }, createRequest({ path: "/users" })),
+      {},
+    );
+  });
+
+  it("extracts named groups of regex paths", () => {
+    assert.deepEqual(
+      extractParams(
+        { path: /^\/users\/(?<id>\d+)(?:\/(?<tab>\w+))?$/ },
+        createRequest({ path: "/users/1" }),
+      ),
+      { id: "1" },
+    );
+  });
+
+  it("returns empty params for non matching requests", () => {
+    assert.deepEqual(
+      extractParams({ path: /^\/users$/ }, createRequest({ path: "/foo" })),
+      {},
+    );
+
+    assert.deepEqual(
+      extractParams({ path: "/users/:id" }, createRequest({ path: "/foo" })),
+      {},
+    );
+  });
+
+  it("extracts parameters of composite matchers", () => {
+    const req = createRequest({ path: "/users/1/posts/2" });
+
+    assert.deepEqual(
+      extractParams(
+        and({ path: "/users/:id/posts/:postId" }, { path: /\/(?<a>\d+)\// }),
+        req,
+      ),
+      { id: "1", postId: "2", a: "1" },
+    );
+
+    assert.deepEqual(
+      extractParams(
+        or({ path: "/users/:user" }, { path: "/users/:id/posts/:postId" }),
+        req,
+      ),
+      { id: "1", postId: "2" },
+    );
+
+    assert.deepEqual(extractParams(not({ path: "/users/:id" }), req), {});
+  });
+
+  it("returns empty params without path", () => {
+    assert.deepEqual(extractParams({}, createRequest({ path: "/foo" })), {});
+    assert.deepEqual(
+      extractParams(() => true, createRequest()),
+      {},
+    );
+  });
+});
+
 function assertRequestMatches(
   matcher: Matcher,
   { matches, fails }: { matches: RequestOptions[]; fails: RequestOptions[] },
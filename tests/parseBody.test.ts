@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRequest } from "node-mocks-http";
+import { parseBody } from "../src";
+
+describe("parseBody", () => {
+  function request(body: string | Buffer, contentType?: string) {
+    return createRequest({
+      headers: contentType ? { "content-type": contentType } : {},
+      body: typeof body === "string" ? Buffer.from(body) : body,
+    });
+  }
+
+  it("returns undefined without a body", () => {
+    assert.equal(parseBody(createRequest()), undefined);
+  });
+
+  it("parses json bodies", () => {
+    assert.deepEqual(parseBody(request('{"foo":"bar"}')), { foo: "bar" });
+    assert.deepEqual(parseBody(request("[1]", "application/json")), [1]);
+  });
+
+  it("returns bodies that cannot be parsed as string", () => {
+    assert.equal(parseBody(request("foo")), "foo");
+    assert.equal(parseBody(request("<a>", "application/xml")), "<a>");
+    assert.equal(parseBody(request("foo", "multipart/form-data")), "foo");
+  });
+
+  it("parses form bodies", () => {
+    assert.deepEqual(
+      parseBody(
+        request(
+          "name=John+Doe&tag=a&tag=b&__proto__=c",
+          "application/x-www-form-urlencoded; charset=utf-8",
+        ),
+      ),
+      Object.fromEntries([
+        ["name", "John Doe"],
+        ["tag", ["a", "b"]],
+        ["__proto__", "c"],
+      ]),
+    );
+  });
+
+  it("parses multipart bodies", async () => {
+    const formData = new FormData();
+    formData.append("name", "John");
+    formData.append("tag", "a");
+    formData.append("tag", "b");
+    formData.append(
+      "avatar",
+      new Blob(["image"], { type: "image/png" }),
+      "avatar.png",
+    );
+    formData.append("file", new Blob(["text"]), "file.txt");
+
+    const { headers, body } = new Request("http://localhost", {
+      method: "POST",
+      body: formData,
+    });
+
+    assert.deepEqual(
+      parseBody(
+        request(
+          Buffer.from(await new Response(body).arrayBuffer()),
+          headers.get("content-type")!,
+        ),
+      ),
+      {
+        name: "John",
+        tag: ["a", "b"],
+        avatar: { filename: "avatar.png", contentType: "image/png", size: 5 },
+        file: {
+          filename: "file.txt",
+          contentType: "application/octet-stream",
+          size: 4,
+        },
+      },
+    );
+  });
+
+  it("parses xml bodies", () => {
+    const xml = `<?xml version="1.0"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Body>
+    <GetUser id="1"><Name>John</Name><Tag>a</Tag><Tag>b</Tag></GetUser>
+  </soap:Body>
+</soap:Envelope>`;
+
+    const expected = {
+      Envelope: {
+        Body: {
+          GetUser: { "@id": "1", Name: "John", Tag: ["a", "b"] },
+        },
+      },
+    };
+
+    assert.deepEqual(parseBody(request(xml, "text/xml")), expected);
+    assert.deepEqual(parseBody(request(xml, "application/soap+xml")), expected);
+  });
+});